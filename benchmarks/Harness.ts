@@ -0,0 +1,53 @@
+import { performance } from "perf_hooks"
+
+
+/**
+ * Minimal interface shared by the benchmarked ordered set implementations.
+ */
+export interface OrderedSet<T> {
+  add (element: T): unknown
+  delete (element: T): boolean
+  order (a: T, b: T): boolean
+  sortedValues (): Iterable<T>
+}
+
+export type OrderedSetFactory = () => OrderedSet<object>
+
+type Scenario = (createSet: OrderedSetFactory) => void
+
+const RUNS = 3
+
+const measure = (scenario: Scenario, createSet: OrderedSetFactory) => {
+  const runs = []
+  for (let i = 0; i < RUNS; i++) {
+    const start = performance.now()
+    scenario(createSet)
+    runs.push(performance.now() - start)
+  }
+  return runs.sort((a, b) => a - b)[Math.floor(RUNS / 2)]
+}
+
+/**
+ * Runs each scenario with both implementations and prints the median duration
+ * of three runs.
+ * @param scenarios the scenarios by name
+ * @param reference the reference implementation factory
+ * @param candidate the candidate implementation factory
+ */
+export const compare = (
+  scenarios: { [name: string]: Scenario },
+  reference: OrderedSetFactory,
+  candidate: OrderedSetFactory
+) => {
+  const results = Object.entries(scenarios).map(([name, scenario]) => {
+    const referenceDuration = measure(scenario, reference)
+    const candidateDuration = measure(scenario, candidate)
+    return {
+      scenario: name,
+      "reference (ms)": referenceDuration.toFixed(2),
+      "incremental (ms)": candidateDuration.toFixed(2),
+      speedup: `${(referenceDuration / candidateDuration).toFixed(1)}x`
+    }
+  })
+  console.table(results)
+}
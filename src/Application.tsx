@@ -3,7 +3,8 @@ import React, { ComponentType, ReactNode, RefObject, useEffect, useRef }
 import { Canvas, useFrame, useThree } from "@react-three/fiber"
 import { WebGLRenderer } from "three"
 
-import { AnimationHandler } from "./motion/Animation"
+import { AnimationHandler, ClockProvider } from "./motion/Animation"
+import { Clock } from "./motion/Clock"
 import { InputManager } from "./input/InputManager"
 import { Renderer, RendererInterface } from "./components/rendering/Renderer"
 import { LayerStack, LayerConfigurationArray }
@@ -50,11 +51,19 @@ const MainScene = (
   )
 }
 
+// Keeps the clock of the outer context unless one is specified
+const MaybeClockProvider = (
+  { clock, children }: { clock?: Clock, children: ReactNode }
+) => (
+  clock? <ClockProvider clock={clock}>{children}</ClockProvider>: children
+)
+
 type ApplicationProps = {
   children: ReactNode
   eventSource: HTMLElement
   MainCameraClass: ComponentType<any>
   LayerClasses: LayerConfigurationArray
+  clock?: Clock
 }
 
 /**
@@ -63,10 +72,13 @@ type ApplicationProps = {
  * @param props.eventSource the root HTML element to receive events from
  * @param props.MainCameraClass a component class that instantiates main cameras
  * @param props.LayerClasses a name-layer configuration map
+ * @param props.clock an optional animation clock, e.g. a {@link ManualClock} to
+ * step animations deterministically (see {@link ClockProvider})
  * @param props.children redacted or react-three-fiber components
  */
 export const Application = (
-  { eventSource, MainCameraClass, LayerClasses, children }: ApplicationProps
+  { eventSource, MainCameraClass, LayerClasses, clock, children }:
+    ApplicationProps
 ) => {
   const inputManager = InputManager()
 
@@ -85,12 +97,14 @@ export const Application = (
         }}
         >
         <CommonMaterialValuesProvider>
-          <MainScene
-            MainCameraClass={MainCameraClass}
-            LayerClasses={LayerClasses}
-            >
-            {children}
-          </MainScene>
+          <MaybeClockProvider clock={clock}>
+            <MainScene
+              MainCameraClass={MainCameraClass}
+              LayerClasses={LayerClasses}
+              >
+              {children}
+            </MainScene>
+          </MaybeClockProvider>
         </CommonMaterialValuesProvider>
       </Canvas>
     </inputManager.CaptureArea>
@@ -1,9 +1,10 @@
 import React, { ReactNode, useCallback,  useRef } from "react"
-import { DoubleSide, Vector2 } from "three"
+import { ColorRepresentation, DoubleSide, Vector2 } from "three"
 import { ThreeElements } from "@react-three/fiber"
 
-import { Line, LineStaticProps, ThreeLine } from "../base/Line"
+import { Line, ThreeLine } from "../base/Line"
 import { Mesh } from "../base/Mesh"
+import { Component } from "../../motion/Component"
 import { PotentialVolatile, useDerivatedVolatile, Volatile }
   from "../../motion/Volatile"
 import { Group } from "../base/Group"
@@ -11,36 +12,58 @@ import { SizeValueType, Position3ValueType } from "../../primitives/ValueTypes"
 import { useVolatileVector2Size } from "../../primitives/Normalizers"
 
 
-const FrameMesh = (
-  { size, children }: { size: Volatile<Vector2>, children: ReactNode }
-) => {
+type FrameMeshProps = {
+  size: Volatile<Vector2>
+  color?: PotentialVolatile<ColorRepresentation>
+  opacity?: PotentialVolatile<number>
+  children: ReactNode
+}
+
+const FrameMesh = ({ size, color, opacity, children }: FrameMeshProps) => {
   const scale = useDerivatedVolatile(
     size,
     (size) => [size.x - 2, size.y - 2, 1]
   )
-  return <Mesh scale={scale}>{children}</Mesh>
+  return (
+    <Mesh scale={scale} color={color} opacity={opacity}>
+      {children}
+    </Mesh>
+  )
 }
 
 export type FrameProps = {
   position: PotentialVolatile<Position3ValueType>
   size: PotentialVolatile<SizeValueType>
   z?: number
-  borderColor?: LineStaticProps["color"]
-  borderOpacity?: LineStaticProps["opacity"]
-} & ThreeElements["meshBasicMaterial"]
+  color?: PotentialVolatile<ColorRepresentation>
+  opacity?: PotentialVolatile<number>
+  borderColor?: PotentialVolatile<ColorRepresentation>
+  borderOpacity?: PotentialVolatile<number>
+} & Omit<ThreeElements["meshBasicMaterial"], "color" | "opacity">
 
 /**
- * A centered rectangular frame with a border.
+ * A centered rectangular frame with a border. Colors and opacities can be
+ * volatile, e.g. to animate highlight states (see {@link useAnimatedColor}).
  * @param props.position the frame position
  * @param props.size the frame size
+ * @param props.color the background color
+ * @param props.opacity the background opacity
  * @param props.borderColor the border color
  * @param props.borderOpacity the border opacity
  * @param props.z the Z coordinate
- * @param props `<meshBasicMaterial>` properties
+ * @param props other `<meshBasicMaterial>` properties
  */
 export const Frame = (
-  { position, size, borderColor, borderOpacity, z = 0, ...props }:
-    FrameProps
+  {
+    position,
+    size,
+    color,
+    opacity,
+    borderColor,
+    borderOpacity,
+    z = 0,
+    ...props
+  }: FrameProps
 ) => {
   const line = useRef<ThreeLine>(null)
   const volatileSize = useVolatileVector2Size(size)
@@ -56,7 +79,7 @@ export const Frame = (
 
   return (
     <Group position={position}>
-      <FrameMesh size={volatileSize}>
+      <FrameMesh size={volatileSize} color={color} opacity={opacity}>
         <planeGeometry />
         <meshBasicMaterial
           side={DoubleSide}
@@ -64,7 +87,7 @@ export const Frame = (
           {...props}
           />
       </FrameMesh>
-      <Line
+      <Component Class={Line<Vector2>}
         ref={line}
         volatile={volatileSize}
         computePoints={computeBorderPoints}
@@ -19,6 +19,7 @@ import { useVolatileReadinessCheck } from "../../utils/Debug"
 import { FlexCell, FlexRow, FlexTable, FlexTableSizeHolder, useFlexTableSize,
   useResize } from "../layout/FlexTable"
 import { Position3ValueType } from "../../primitives/ValueTypes"
+import { equalBox2 } from "../../primitives/Equality"
 import { LayerIdentifierType } from "../rendering/LayerStack"
 import { warn } from "../../logging/Log"
 import { ShaderMaterialExtensionContext }
@@ -58,6 +59,7 @@ const FlexCellWrapper = (
     marginBottom = 0,
     marginLeft = 0,
     marginRight = 0,
+    presence,
     children
   }: LocalLayoutClientContainerProps
 ) => {
@@ -69,11 +71,18 @@ const FlexCellWrapper = (
 
   let position = new Vector3()
 
+  // Content is clipped as the cell collapses with the client presence
   const computedBounds = useDelayedDerivatedVolatile(
-    [animatedSize, useVolatile(stackComputedBounds)],
-    ([_width, height], stackBounds, set: (value: Box2) => void) => {
+    [animatedSize, useVolatile(stackComputedBounds), useVolatile(presence ?? 1)],
+    (
+      [_width, fullHeight],
+      stackBounds,
+      presenceValue,
+      set: (value: Box2) => void
+    ) => {
       if (!boxRef.current)
         return
+      const height = fullHeight * presenceValue
       boxRef.current.getWorldPosition(position)
       const box = new Box2(
         new Vector2(
@@ -163,7 +172,10 @@ const VerticalStackBoxImpl = (
         new Vector2(position.x, position.y - height),
         new Vector2(position.x + width, position.y)
       )
-    )
+    ),
+    [],
+    false,
+    equalBox2
   )
 
   const framePosition = useDerivatedVolatile(
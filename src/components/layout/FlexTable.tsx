@@ -11,6 +11,7 @@ import { Resolve } from "../../motion/Component"
 import { LocalLayout, LocalLayoutClientContainerProps, useLocalLayoutSettings }
   from "./LocalLayout"
 import { useRenderer } from "../rendering/Renderer"
+import { usePresence } from "../../motion/Presence"
 
 
 type ComponentIdType = ReturnType<typeof useId>
@@ -326,7 +327,15 @@ export const FlexCell = (
   const column = useContext(ColumnIndexContext)
   const [groupRef, assignGroupRef] = useForwardableRef<Object3D>(ref)
   const { refresh, register } = useContext(TableContext)
-  const [position, unregister] = register(id, row, column, size)
+  // The cell collapses vertically with the presence of its content
+  const presence = usePresence()
+  const occupiedSize = useDerivatedVolatile(
+    [size, presence],
+    (cellSize: Vector2, presenceValue: number) => presenceValue === 1
+      ? cellSize
+      : new Vector2(cellSize.x, cellSize.y * presenceValue)
+  )
+  const [position, unregister] = register(id, row, column, occupiedSize)
 
   const positionOffset: [number, number, number] = useMemo(
     () => [marginLeft ?? 0, -(marginTop ?? 0), 0],
@@ -361,7 +370,8 @@ export const FlexCell = (
       cellInterface.resize()
   }, [cellInterface, assignGroupRef])
 
-  const sizeResolver = useDerivatedVolatile(size, () => void refresh())
+  const sizeResolver =
+    useDerivatedVolatile(occupiedSize, () => void refresh())
 
   useEffect(() => () => unregister(), [])
 
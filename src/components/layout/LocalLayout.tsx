@@ -5,6 +5,7 @@ import { Box2 } from "three"
 import { PotentialVolatile, Volatile } from "../../motion/Volatile"
 import { useRenderer } from "../../components/rendering"
 import { warn } from "../../logging/Log"
+import { IgnorePresence, usePresence } from "../../motion/Presence"
 
 
 export interface LocalLayoutClientContainer {
@@ -14,6 +15,11 @@ export interface LocalLayoutClientContainer {
 export interface LocalLayoutClientContainerProps {
   ref?: RefObject<LocalLayoutClientContainer | null>
   children?: ReactNode
+  /**
+   * The presence of the client (see {@link usePresence}), which the layout may
+   * use to animate the space occupied by the client.
+   */
+  presence?: Volatile<number>
   width?: number
   height?: number
   marginLeft?: number
@@ -154,15 +160,25 @@ export const LocalLayout = (props: LocalLayoutProps) => {
 /**
  * Declares a local layout client. Children of this component will be wrapped
  * into a positioning component set up by the local layout manager. Size and
- * margins can be specified through the properties.
+ * margins can be specified through the properties. The current presence is
+ * forwarded to the wrapper, and reset for the children.
  * @param props optional instance-specific size and margin overrides
  */
-export const LocalLayoutClient = (props: LocalLayoutClientContainerProps) => {
+export const LocalLayoutClient = (
+  { children, ...props }: LocalLayoutClientContainerProps
+) => {
   const ClientWrapperClass = useContext(LocalLayoutContext).clientWrapperClass!
   const localLayoutSettings = useLocalLayoutSettings()
+  const presence = usePresence()
   if (localLayoutSettings.disabled)
     return <ClientWrapperClass />
-  return <ClientWrapperClass {...props} />
+  return (
+    <ClientWrapperClass presence={presence} {...props}>
+      <IgnorePresence>
+        {children}
+      </IgnorePresence>
+    </ClientWrapperClass>
+  )
 }
 
 /**
@@ -7,6 +7,9 @@ import { useRenderer } from "./Renderer"
 import { NotImplementedProxy } from "../../utils/NotImplementedProxy"
 import { RenderStepIdentifierType } from "./Stages"
 import { createTunnel } from "../../utils/Tunnel"
+import { isVolatile, PotentialVolatile, useDerivatedVolatile, useVolatile,
+  Volatile } from "../../motion/Volatile"
+import { Resolve, SuspendComponentVolatiles } from "../../motion/Component"
 
 
 interface LayerTransformInterface {
@@ -105,22 +108,40 @@ type LayerRenderingSettings = {
 type LayerProps = {
   renderingSettings: LayerRenderingSettings,
   transform: LayerTransformInterface
+  visible?: PotentialVolatile<boolean>
   children: ReactNode
 }
 
 /**
  * Declares a render layer. Children of this component will be mounted in their
  * own react-three-fiber scene. The layer is automatically registered in the
- * current renderer.
+ * current renderer. While the layer is hidden, its scene is not rendered and
+ * the resolution of its component volatiles is suspended. Layers without
+ * `visible` property do not check for suspension at all; switching between
+ * both modes remounts the children.
  * @param props.renderingSettings the rendering settings
  * @param props.transform the transform functions
+ * @param props.visible whether the layer is visible (default `true`)
  */
 export const Layer = (
-  { renderingSettings, transform, children }: LayerProps
+  { renderingSettings, transform, visible, children }: LayerProps
 ) => {
   const scene = useMemo(() => new Scene(), [])
   const rootTunnel = createTunnel()
   const { identifier, after, before } = renderingSettings
+  const staticVisible = useVolatile<boolean>()
+  useEffect(() => {
+    if (!isVolatile(visible))
+      staticVisible.set((visible ?? true) as boolean)
+  }, [visible, staticVisible])
+  const hidden = useDerivatedVolatile(
+    isVolatile(visible)? visible as Volatile<boolean>: staticVisible,
+    (visible) => {
+      scene.visible = visible
+      return !visible
+    },
+    [scene]
+  )
 
   const layerInterface = useMemo(
     () => ({
@@ -130,11 +151,20 @@ export const Layer = (
     [transform, rootTunnel.In]
   )
 
+  const content = <>{children}<rootTunnel.Out /></>
+  const suspendableContent = visible === undefined
+    ? content
+    : (
+      <SuspendComponentVolatiles suspended={hidden}>
+        {content}
+      </SuspendComponentVolatiles>
+    )
+
   return createPortal(
     <LayerContext.Provider value={layerInterface}>
-      {children}
-      <rootTunnel.Out />
+      {suspendableContent}
       <RegisterLayer identifier={identifier} after={after} before={before} />
+      <Resolve volatile={hidden} priority="early" />
     </LayerContext.Provider>,
     scene
   )
@@ -5,6 +5,7 @@ import { Camera } from "three"
 import { createTunnel, type TunnelType } from "../../utils/Tunnel"
 import { NotImplementedProxy } from "../../utils/NotImplementedProxy"
 import { newRenderStepIdentifier, UserInterfaceStage } from "./Stages"
+import { PotentialVolatile } from "../../motion/Volatile"
 
 
 export type LayerIdentifierType = string
@@ -33,6 +34,7 @@ export const useLayerStack = () => useContext(LayerStackContext)
 type LayerConfiguration = {
   name: LayerIdentifierType,
   LayerClass: ComponentType<any>
+  visible?: PotentialVolatile<boolean>
 }
 
 export type LayerConfigurationArray = Array<LayerConfiguration>
@@ -47,7 +49,9 @@ type LayerStackProps = {
  * Main receiver of 3D and UI objects. This component defines a main "scene" (in
  * the react-three-fiber sense) where 3D objects live and on top of which
  * other layers can be added. Default upper, overlay layers are defined in
- * {@link defaultLayerClasses}. Children can use the {@link UpperLayerTransport}
+ * {@link defaultLayerClasses}. A layer configuration may specify whether the
+ * layer is visible, which is forwarded to its class as a `visible` property
+ * (see {@link Layer}). Children can use the {@link UpperLayerTransport}
  * to deport elements to an upper layer.
  * @param props.MainCameraClass the class of the main camera
  * @param props.LayerClasses an array of layer configurations
@@ -75,7 +79,7 @@ export const LayerStack = ({
 
   const layerComponents = useMemo(() => {
     const layers = []
-    for (const { name, LayerClass } of LayerClasses) {
+    for (const { name, LayerClass, visible } of LayerClasses) {
       const tunnel = tunnels[name]
       const { start: stageStart, end: stageEnd } = UserInterfaceStage
       let last = undefined
@@ -86,7 +90,11 @@ export const LayerStack = ({
         before: [stageEnd]
       }
       layers.push(
-        <LayerClass key={name} renderingSettings={renderingSettings}>
+        <LayerClass
+          key={name}
+          renderingSettings={renderingSettings}
+          visible={visible}
+          >
           <tunnel.Out />
         </LayerClass>
       )
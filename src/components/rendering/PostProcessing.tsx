@@ -0,0 +1,571 @@
+import React, { RefObject, useEffect, useMemo } from "react"
+import { useThree } from "@react-three/fiber"
+import { Camera, Color, ColorRepresentation, HalfFloatType, IUniform, Material,
+  Mesh, MeshBasicMaterial, Object3D, OrthographicCamera, PlaneGeometry, Scene,
+  ShaderMaterial, Texture, Vector2, WebGLRenderer, WebGLRenderTarget }
+  from "three"
+
+import { PostProcessingPass, useRenderer } from "./Renderer"
+import { newRenderStepIdentifier, OffscreenStage } from "./Stages"
+
+
+const passVertexShader = /* glsl */ `
+  varying vec2 vUv;
+
+  void main()
+  {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`
+
+/**
+ * A post-processing pass which renders a full-screen quad with a fragment
+ * shader. The shader receives the output of the previous pass as the
+ * `uRCInput` texture, the size of a texel as the `uRCTexelSize` vector, and the
+ * texture coordinates as the `vUv` varying. It should end with
+ * `#include <colorspace_fragment>` so that the last pass outputs in the color
+ * space of the canvas.
+ */
+export class ShaderPass implements PostProcessingPass {
+  /** The uniforms of the shader, which can be updated between frames. */
+  public readonly uniforms: { [name: string]: IUniform }
+  private readonly scene: Scene
+  private readonly camera: OrthographicCamera
+  private readonly material: ShaderMaterial
+
+  /**
+   * Creates a shader pass.
+   * @param fragmentShader the fragment shader
+   * @param uniforms optional additional uniforms
+   */
+  constructor (
+    fragmentShader: string,
+    uniforms: { [name: string]: IUniform } = {}
+  ) {
+    this.uniforms = {
+      ...uniforms,
+      uRCInput: { value: null },
+      uRCTexelSize: { value: new Vector2() }
+    }
+    this.material = new ShaderMaterial({
+      uniforms: this.uniforms,
+      vertexShader: passVertexShader,
+      fragmentShader,
+      depthTest: false,
+      depthWrite: false
+    })
+    this.scene = new Scene()
+    this.scene.add(new Mesh(new PlaneGeometry(2, 2), this.material))
+    this.camera = new OrthographicCamera(-1, 1, 1, -1, 0, 1)
+  }
+
+  public render (gl: WebGLRenderer, input: Texture) {
+    const { width, height } = input.image as { width: number, height: number }
+    this.uniforms.uRCInput.value = input
+    this.uniforms.uRCTexelSize.value.set(1 / width, 1 / height)
+    gl.autoClear = false
+    gl.render(this.scene, this.camera)
+  }
+
+  /**
+   * Disposes of the GPU resources of the pass.
+   */
+  public dispose () {
+    this.material.dispose()
+    this.scene.traverse((object) => {
+      if (object instanceof Mesh)
+        object.geometry.dispose()
+    })
+  }
+}
+
+const vignetteFragmentShader = /* glsl */ `
+  uniform sampler2D uRCInput;
+  uniform float uRCOffset;
+  uniform float uRCDarkness;
+  varying vec2 vUv;
+
+  void main()
+  {
+    vec4 texel = texture2D(uRCInput, vUv);
+    vec2 uv = (vUv - vec2(0.5)) * vec2(uRCOffset);
+    gl_FragColor = vec4(
+      mix(texel.rgb, vec3(1.0 - uRCDarkness), dot(uv, uv)),
+      texel.a
+    );
+    #include <colorspace_fragment>
+  }
+`
+
+/**
+ * Creates a pass which darkens the edges of the view.
+ * @param offset the extent of the unaffected center (default `1`)
+ * @param darkness the darkness of the edges (default `1`)
+ * @returns the pass
+ */
+export const vignettePass = (offset = 1, darkness = 1) => new ShaderPass(
+  vignetteFragmentShader,
+  {
+    uRCOffset: { value: offset },
+    uRCDarkness: { value: darkness }
+  }
+)
+
+const bloomThresholdFragmentShader = /* glsl */ `
+  uniform sampler2D uRCInput;
+  uniform float uRCThreshold;
+  varying vec2 vUv;
+
+  void main()
+  {
+    vec3 color = texture2D(uRCInput, vUv).rgb;
+    float brightness = max(color.r, max(color.g, color.b));
+    gl_FragColor = vec4(
+      color * max(brightness - uRCThreshold, 0.0) / max(brightness, 0.0001),
+      1.0
+    );
+  }
+`
+
+// Separable gaussian blur with 9 taps, using linear filtering to read two
+// texels per sample
+const bloomBlurFragmentShader = /* glsl */ `
+  uniform sampler2D uRCInput;
+  uniform vec2 uRCTexelSize;
+  uniform vec2 uRCDirection;
+  uniform float uRCRadius;
+  varying vec2 vUv;
+
+  void main()
+  {
+    vec2 offset = uRCDirection * uRCTexelSize * uRCRadius;
+    vec3 color = texture2D(uRCInput, vUv).rgb * 0.2270270;
+    color += (
+      texture2D(uRCInput, vUv + offset * 1.3846154).rgb
+        + texture2D(uRCInput, vUv - offset * 1.3846154).rgb
+    ) * 0.3162162;
+    color += (
+      texture2D(uRCInput, vUv + offset * 3.2307692).rgb
+        + texture2D(uRCInput, vUv - offset * 3.2307692).rgb
+    ) * 0.0702703;
+    gl_FragColor = vec4(color, 1.0);
+  }
+`
+
+const bloomCompositeFragmentShader = /* glsl */ `
+  uniform sampler2D uRCInput;
+  uniform sampler2D uRCBloom;
+  uniform float uRCIntensity;
+  varying vec2 vUv;
+
+  void main()
+  {
+    vec4 texel = texture2D(uRCInput, vUv);
+    gl_FragColor = vec4(
+      texel.rgb + texture2D(uRCBloom, vUv).rgb * uRCIntensity,
+      texel.a
+    );
+    #include <colorspace_fragment>
+  }
+`
+
+/**
+ * A post-processing pass which makes the bright areas of the scene glow: the
+ * colors brighter than a threshold are extracted at half resolution, blurred,
+ * then added to the scene. It should precede tone mapping, if any.
+ */
+export class BloomPass implements PostProcessingPass {
+  private readonly targets: WebGLRenderTarget[]
+  private readonly thresholdPass: ShaderPass
+  private readonly blurPass: ShaderPass
+  private readonly compositePass: ShaderPass
+
+  /**
+   * Creates a bloom pass.
+   * @param threshold the brightness above which colors glow (default `1`)
+   * @param intensity the intensity of the glow (default `1`)
+   * @param radius the spread of the glow (default `1`)
+   */
+  constructor (threshold = 1, intensity = 1, radius = 1) {
+    this.targets = [0, 1].map(
+      () => new WebGLRenderTarget(1, 1, { type: HalfFloatType })
+    )
+    this.thresholdPass = new ShaderPass(
+      bloomThresholdFragmentShader,
+      { uRCThreshold: { value: threshold } }
+    )
+    this.blurPass = new ShaderPass(
+      bloomBlurFragmentShader,
+      {
+        uRCDirection: { value: new Vector2() },
+        uRCRadius: { value: radius }
+      }
+    )
+    this.compositePass = new ShaderPass(
+      bloomCompositeFragmentShader,
+      {
+        uRCBloom: { value: null },
+        uRCIntensity: { value: intensity }
+      }
+    )
+  }
+
+  public render (gl: WebGLRenderer, input: Texture) {
+    const output = gl.getRenderTarget()
+    const { width, height } = input.image as { width: number, height: number }
+    const [first, second] = this.targets
+    // No-op when the size did not change
+    this.targets.forEach(
+      (target) => target.setSize(Math.ceil(width / 2), Math.ceil(height / 2))
+    )
+    gl.setRenderTarget(first)
+    this.thresholdPass.render(gl, input)
+    gl.setRenderTarget(second)
+    this.blurPass.uniforms.uRCDirection.value.set(1, 0)
+    this.blurPass.render(gl, first.texture)
+    gl.setRenderTarget(first)
+    this.blurPass.uniforms.uRCDirection.value.set(0, 1)
+    this.blurPass.render(gl, second.texture)
+    gl.setRenderTarget(output)
+    this.compositePass.uniforms.uRCBloom.value = first.texture
+    this.compositePass.render(gl, input)
+  }
+
+  /**
+   * Disposes of the GPU resources of the pass.
+   */
+  public dispose () {
+    this.targets.forEach((target) => target.dispose())
+    this.thresholdPass.dispose()
+    this.blurPass.dispose()
+    this.compositePass.dispose()
+  }
+}
+
+/**
+ * Creates a bloom pass (see {@link BloomPass}).
+ * @param threshold the brightness above which colors glow (default `1`)
+ * @param intensity the intensity of the glow (default `1`)
+ * @param radius the spread of the glow (default `1`)
+ * @returns the pass
+ */
+export const bloomPass = (threshold = 1, intensity = 1, radius = 1) =>
+  new BloomPass(threshold, intensity, radius)
+
+const toneMappingFragmentShader = /* glsl */ `
+  uniform sampler2D uRCInput;
+  uniform float uRCExposure;
+  varying vec2 vUv;
+
+  // Fitted ACES curve, see "ACES Filmic Tone Mapping Curve" by K. Narkowicz
+  vec3 RCACESFilmic(vec3 x)
+  {
+    return clamp(
+      (x * (2.51 * x + 0.03)) / (x * (2.43 * x + 0.59) + 0.14),
+      0.0,
+      1.0
+    );
+  }
+
+  void main()
+  {
+    vec4 texel = texture2D(uRCInput, vUv);
+    gl_FragColor = vec4(RCACESFilmic(texel.rgb * uRCExposure), texel.a);
+    #include <colorspace_fragment>
+  }
+`
+
+/**
+ * Creates a pass which maps high dynamic range colors to displayable ones
+ * with a filmic curve. Passes are rendered in half-float targets, so that
+ * preceding passes, e.g. {@link bloomPass}, can output colors brighter than
+ * white.
+ * @param exposure the exposure (default `1`)
+ * @returns the pass
+ */
+export const toneMappingPass = (exposure = 1) => new ShaderPass(
+  toneMappingFragmentShader,
+  { uRCExposure: { value: exposure } }
+)
+
+const fxaaFragmentShader = /* glsl */ `
+  #define RC_FXAA_REDUCE_MIN (1.0 / 128.0)
+  #define RC_FXAA_REDUCE_MUL (1.0 / 8.0)
+  #define RC_FXAA_SPAN_MAX 8.0
+
+  uniform sampler2D uRCInput;
+  uniform vec2 uRCTexelSize;
+  varying vec2 vUv;
+
+  void main()
+  {
+    vec4 texel = texture2D(uRCInput, vUv);
+    vec3 luma = vec3(0.299, 0.587, 0.114);
+    float lumaNW = dot(texture2D(uRCInput, vUv - uRCTexelSize).rgb, luma);
+    float lumaNE = dot(
+      texture2D(uRCInput, vUv + vec2(1.0, -1.0) * uRCTexelSize).rgb,
+      luma
+    );
+    float lumaSW = dot(
+      texture2D(uRCInput, vUv + vec2(-1.0, 1.0) * uRCTexelSize).rgb,
+      luma
+    );
+    float lumaSE = dot(texture2D(uRCInput, vUv + uRCTexelSize).rgb, luma);
+    float lumaM = dot(texel.rgb, luma);
+    float lumaMin = min(lumaM, min(min(lumaNW, lumaNE), min(lumaSW, lumaSE)));
+    float lumaMax = max(lumaM, max(max(lumaNW, lumaNE), max(lumaSW, lumaSE)));
+
+    // Blurs along the edge, whose direction follows the luma gradient
+    vec2 direction = vec2(
+      (lumaSW + lumaSE) - (lumaNW + lumaNE),
+      (lumaNW + lumaSW) - (lumaNE + lumaSE)
+    );
+    float directionReduce = max(
+      (lumaNW + lumaNE + lumaSW + lumaSE) * 0.25 * RC_FXAA_REDUCE_MUL,
+      RC_FXAA_REDUCE_MIN
+    );
+    float inverseDirectionMin =
+      1.0 / (min(abs(direction.x), abs(direction.y)) + directionReduce);
+    direction = clamp(
+      direction * inverseDirectionMin,
+      vec2(-RC_FXAA_SPAN_MAX),
+      vec2(RC_FXAA_SPAN_MAX)
+    ) * uRCTexelSize;
+
+    vec3 colorA = 0.5 * (
+      texture2D(uRCInput, vUv + direction * (1.0 / 3.0 - 0.5)).rgb
+        + texture2D(uRCInput, vUv + direction * (2.0 / 3.0 - 0.5)).rgb
+    );
+    vec3 colorB = colorA * 0.5 + 0.25 * (
+      texture2D(uRCInput, vUv - direction * 0.5).rgb
+        + texture2D(uRCInput, vUv + direction * 0.5).rgb
+    );
+    float lumaB = dot(colorB, luma);
+    gl_FragColor = vec4(
+      lumaB < lumaMin || lumaB > lumaMax? colorA: colorB,
+      texel.a
+    );
+    #include <colorspace_fragment>
+  }
+`
+
+/**
+ * Creates a fast approximate anti-aliasing pass, which smooths the edges of
+ * the scene. It should follow tone mapping, if any.
+ * @returns the pass
+ */
+export const fxaaPass = () => new ShaderPass(fxaaFragmentShader)
+
+const outlineFragmentShader = /* glsl */ `
+  uniform sampler2D uRCInput;
+  uniform sampler2D uRCMask;
+  uniform vec2 uRCTexelSize;
+  uniform vec3 uRCColor;
+  uniform float uRCThickness;
+  varying vec2 vUv;
+
+  void main()
+  {
+    vec4 texel = texture2D(uRCInput, vUv);
+    vec2 offset = uRCTexelSize * uRCThickness;
+    float mask = texture2D(uRCMask, vUv).a;
+    float neighbors = max(
+      max(
+        texture2D(uRCMask, vUv + vec2(offset.x, 0.0)).a,
+        texture2D(uRCMask, vUv - vec2(offset.x, 0.0)).a
+      ),
+      max(
+        texture2D(uRCMask, vUv + vec2(0.0, offset.y)).a,
+        texture2D(uRCMask, vUv - vec2(0.0, offset.y)).a
+      )
+    );
+    // Outer edges of the mask only, so that the objects stay unaffected
+    float edge = max(neighbors - mask, 0.0);
+    gl_FragColor = vec4(
+      mix(texel.rgb, uRCColor, edge),
+      max(texel.a, edge)
+    );
+    #include <colorspace_fragment>
+  }
+`
+
+type MaterialOwner = Object3D & { material?: Material | Material[] }
+
+/**
+ * A post-processing pass which outlines objects of the scene, e.g. tracked or
+ * selected ones. The silhouettes of the objects are rendered into a mask, whose
+ * outer edges are then drawn over the scene. The mask is rendered on each frame
+ * by {@link useOutlineMask}; objects are outlined even where they are hidden
+ * by others.
+ */
+export class OutlinePass implements PostProcessingPass {
+  /** The mask of the outlined objects, opaque where they are rendered. */
+  public readonly mask: WebGLRenderTarget
+  private readonly maskMaterial: MeshBasicMaterial
+  private readonly compositePass: ShaderPass
+
+  /**
+   * Creates an outline pass.
+   * @param color the color of the outline (default `"white"`)
+   * @param thickness the thickness of the outline, in pixels (default `1`)
+   */
+  constructor (color: ColorRepresentation = "white", thickness = 1) {
+    this.mask = new WebGLRenderTarget(1, 1)
+    this.maskMaterial = new MeshBasicMaterial()
+    this.compositePass = new ShaderPass(
+      outlineFragmentShader,
+      {
+        uRCMask: { value: this.mask.texture },
+        uRCColor: { value: new Color(color) },
+        uRCThickness: { value: thickness }
+      }
+    )
+  }
+
+  /**
+   * Renders the silhouettes of objects into the bound render target. The
+   * materials of the objects are swapped for the mask material meanwhile.
+   * @param gl the renderer
+   * @param objects the objects to outline
+   * @param camera the camera of the scene
+   */
+  public renderMask (gl: WebGLRenderer, objects: Object3D[], camera: Camera) {
+    const materials = new Map<MaterialOwner, Material | Material[]>()
+    objects.forEach((object) => object.traverseVisible(
+      (child: MaterialOwner) => {
+        if (!child.material)
+          return
+        materials.set(child, child.material)
+        child.material = this.maskMaterial
+      }
+    ))
+    gl.autoClear = false
+    objects.forEach((object) => gl.render(object, camera))
+    for (const [child, material] of materials)
+      child.material = material
+  }
+
+  public render (gl: WebGLRenderer, input: Texture) {
+    this.compositePass.render(gl, input)
+  }
+
+  /**
+   * Disposes of the GPU resources of the pass.
+   */
+  public dispose () {
+    this.mask.dispose()
+    this.maskMaterial.dispose()
+    this.compositePass.dispose()
+  }
+}
+
+/**
+ * Creates an outline pass (see {@link OutlinePass}).
+ * @param color the color of the outline (default `"white"`)
+ * @param thickness the thickness of the outline, in pixels (default `1`)
+ * @returns the pass
+ */
+export const outlinePass = (
+  color: ColorRepresentation = "white",
+  thickness = 1
+) => new OutlinePass(color, thickness)
+
+/**
+ * Hook that renders the mask of an outline pass on each frame, before the
+ * layers of the current renderer, from the objects referenced by `objects`
+ * (e.g. created with {@link useTrackableObjectRef}) viewed from the camera of
+ * the scene. The mask follows the size of the drawing buffer.
+ * ```jsx
+ * const outline = useMemo(() => outlinePass("orange", 2), [])
+ * const passes = useMemo(() => [outline, fxaaPass()], [outline])
+ * const tracked = useTrackableObjectRef()
+ * const objects = useMemo(() => [tracked], [tracked])
+ * useOutlineMask(outline, objects)
+ * ...
+ * <PostProcessing passes={passes} />
+ * <Mesh ref={tracked}>...</Mesh>
+ * ```
+ * @param pass the outline pass
+ * @param objects the refs of the objects to outline, which should be memoized
+ */
+export const useOutlineMask = (
+  pass: OutlinePass,
+  objects: RefObject<Object3D | null>[]
+) => {
+  const { registerRenderer, renderToTarget } = useRenderer()
+  const gl = useThree((state) => state.gl)
+  const camera = useThree((state) => state.camera)
+  const renderStepIdentifier = useMemo(() => newRenderStepIdentifier(), [])
+  const size = useMemo(() => new Vector2(), [])
+  useEffect(() => registerRenderer(
+    renderStepIdentifier,
+    [OffscreenStage.start],
+    [OffscreenStage.end],
+    () => {
+      gl.getDrawingBufferSize(size)
+      // No-op when the size did not change
+      pass.mask.setSize(size.x, size.y)
+      const mounted = objects
+        .map(({ current }) => current)
+        .filter((object) => object !== null)
+      renderToTarget(
+        pass.mask,
+        (gl) => pass.renderMask(gl, mounted, camera)
+      )
+    }
+  ), [
+    registerRenderer,
+    renderStepIdentifier,
+    renderToTarget,
+    gl,
+    camera,
+    size,
+    pass,
+    objects
+  ])
+}
+
+/**
+ * Hook that registers post-processing passes in the current renderer. Passes
+ * are rendered in the specified order and should be memoized.
+ * @param passes the passes
+ */
+export const usePostProcessingPasses = (passes: PostProcessingPass[]) => {
+  const { registerPass } = useRenderer()
+  const identifiers = useMemo(
+    () => passes.map(() => newRenderStepIdentifier()),
+    [passes.length]
+  )
+  useEffect(() => {
+    const unregisters = passes.map((pass, i) => registerPass(
+      identifiers[i],
+      i? [identifiers[i - 1]]: [],
+      [],
+      pass
+    ))
+    return () => unregisters.forEach((unregister) => unregister())
+  }, [registerPass, identifiers, passes])
+}
+
+/**
+ * Applies post-processing passes to the main scene of the current renderer,
+ * e.g. tone mapping or anti-aliasing. The user interface layers are rendered
+ * afterwards, so that texts stay sharp. Passes should be memoized and disposed
+ * of by their owner.
+ * ```jsx
+ * const passes = useMemo(
+ *   () => [bloomPass(), toneMappingPass(), fxaaPass()],
+ *   []
+ * )
+ * ...
+ * <PostProcessing passes={passes} />
+ * ```
+ * @param props.passes the passes, in order
+ */
+export const PostProcessing = (
+  { passes }: { passes: PostProcessingPass[] }
+) => {
+  usePostProcessingPasses(passes)
+  return <></>
+}
@@ -0,0 +1,174 @@
+import React, { ReactNode, useEffect, useMemo, useRef } from "react"
+import { createPortal, useThree } from "@react-three/fiber"
+import { Camera, ColorRepresentation, Scene, Texture, WebGLRenderer,
+  WebGLRenderTarget } from "three"
+
+import { RendererInterface, useRenderer } from "./Renderer"
+import { newRenderStepIdentifier, OffscreenStage } from "./Stages"
+import { get, PotentialVolatile, ResourceHandle, RootVolatile,
+  useDerivatedVolatile, useVolatile, Volatile } from "../../motion/Volatile"
+import { Resolve } from "../../motion/Component"
+import { useVolatileVector2Size } from "../../primitives/Normalizers"
+import { SizeValueType } from "../../primitives/ValueTypes"
+
+
+/**
+ * What {@link useRenderToTexture} renders: a scene viewed from a camera, a
+ * nested {@link Renderer} along with its layers, or a function which renders
+ * with the specified `WebGLRenderer`, the render target being bound.
+ */
+export type RenderToTextureSource =
+  | { scene: Scene, camera: Camera, clearColor?: ColorRepresentation }
+  | RendererInterface
+  | ((gl: WebGLRenderer) => void)
+
+const renderSource = (source: RenderToTextureSource, gl: WebGLRenderer) => {
+  if (typeof source === "function")
+    return source(gl)
+  if ("render" in source) {
+    source.resolveComponentVolatiles()
+    return source.render()
+  }
+  const { scene, camera, clearColor } = source
+  if (clearColor !== undefined) {
+    gl.setClearColor(clearColor)
+    gl.clear()
+  }
+  gl.autoClear = false
+  gl.render(scene, camera)
+}
+
+type RenderToTextureOptions = {
+  samples?: number
+}
+
+/**
+ * Hook that renders a source into an offscreen render target on each frame,
+ * before the layers of the current renderer, and returns the resulting
+ * texture, e.g. for an {@link Image}. Unlike a {@link MiniView}, the texture
+ * can be transformed in 3D, or further processed. The render target is
+ * cleared with a transparent color and its size follows the pixel ratio of
+ * the renderer; it is recreated, and the previous texture disposed of, when
+ * the size changes. A nested renderer forwards its invalidation requests to the
+ * current renderer.
+ * @param size the volatile or static size of the texture, in pixels
+ * @param source the scene, renderer or function to render
+ * @param options.samples an optional number of samples for multisampling
+ * (default `0`)
+ * @returns the volatile handle to the texture
+ */
+export const useRenderToTexture = (
+  size: PotentialVolatile<SizeValueType>,
+  source: RenderToTextureSource,
+  { samples = 0 }: RenderToTextureOptions = {}
+): Volatile<ResourceHandle<Texture>> => {
+  const { getPixelRatio, invalidate, registerRenderer, renderToTarget } =
+    useRenderer()
+  const renderStepIdentifier = useMemo(() => newRenderStepIdentifier(), [])
+  const target = useRef<WebGLRenderTarget>(null)
+  const latestSource = useRef(source)
+  latestSource.current = source
+
+  // The handle is held by a root volatile, since derivated volatiles expose
+  // the resources of their handles instead of the handles themselves
+  const texture = useVolatile<ResourceHandle<Texture>>()
+  const createTarget = useDerivatedVolatile(
+    useVolatileVector2Size(size),
+    ({ x, y }) => {
+      const dpr = getPixelRatio()
+      const renderTarget = new WebGLRenderTarget(
+        Math.max(1, Math.ceil(x * dpr)),
+        Math.max(1, Math.ceil(y * dpr)),
+        { samples }
+      )
+      target.current = renderTarget
+      texture.set(
+        ResourceHandle.create(
+          renderTarget.texture,
+          () => renderTarget.dispose()
+        )
+      )
+    },
+    [texture, getPixelRatio, samples]
+  )
+  texture.setAuxiliary(createTarget)
+
+  useEffect(() => {
+    if (typeof source === "function" || !("render" in source))
+      return
+    // Forwards invalidation requests of the nested renderer
+    return source.attachOnInvalidate(invalidate)
+  }, [source, invalidate])
+
+  useEffect(() => registerRenderer(
+    renderStepIdentifier,
+    [OffscreenStage.start],
+    [OffscreenStage.end],
+    () => {
+      const renderTarget = target.current
+      if (!renderTarget || get(texture, null) !== renderTarget.texture)
+        return
+      renderToTarget(
+        renderTarget,
+        (gl) => renderSource(latestSource.current, gl)
+      )
+    }
+  ), [registerRenderer, renderStepIdentifier, texture, renderToTarget])
+
+  return texture
+}
+
+type RenderTargetLayerProps = {
+  size: PotentialVolatile<SizeValueType>
+  texture: RootVolatile<ResourceHandle<Texture>>
+  camera?: Camera
+  clearColor?: ColorRepresentation
+  samples?: number
+  children: ReactNode
+}
+
+/**
+ * Declares an offscreen layer. Children of this component are mounted in their
+ * own react-three-fiber scene, which is rendered into the `texture` volatile
+ * instead of the canvas (see {@link useRenderToTexture}).
+ * ```jsx
+ * const texture = useVolatile<ResourceHandle<Texture>>()
+ * ...
+ * <RenderTargetLayer size={[256, 256]} texture={texture}>
+ *   <mesh>...</mesh>
+ * </RenderTargetLayer>
+ * <Image size={[2, 2]} texture={texture} />
+ * ```
+ * @param props.size the volatile or static size of the texture, in pixels
+ * @param props.texture the root volatile receiving the texture
+ * @param props.camera an optional camera (default: the camera of the current
+ * scene)
+ * @param props.clearColor an optional background color (default transparent)
+ * @param props.samples an optional number of samples for multisampling
+ */
+export const RenderTargetLayer = (
+  { size, texture, camera, clearColor, samples, children }:
+    RenderTargetLayerProps
+) => {
+  const scene = useMemo(() => new Scene(), [])
+  const defaultCamera = useThree(state => state.camera)
+  const source = useMemo(
+    () => ({ scene, camera: camera ?? defaultCamera, clearColor }),
+    [scene, camera, defaultCamera, clearColor]
+  )
+  const renderedTexture = useRenderToTexture(size, source, { samples })
+  // Both volatiles attach to the handle: the render target is disposed of once
+  // neither of them holds it
+  const forwardTexture = useDerivatedVolatile(
+    renderedTexture,
+    (handle) => texture.set(handle),
+    [texture]
+  )
+  useEffect(() => () => texture.unset(), [texture])
+  return (
+    <>
+      {createPortal(children, scene)}
+      <Resolve volatile={forwardTexture} />
+    </>
+  )
+}
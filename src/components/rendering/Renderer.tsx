@@ -1,19 +1,23 @@
 import React, { createContext, forwardRef, ReactNode, RefObject, useCallback,
-  useContext, useId, useImperativeHandle, useMemo, useRef } from "react"
+  useContext, useEffect, useId, useImperativeHandle, useMemo, useRef }
+  from "react"
 import { Size, useThree, Canvas } from "@react-three/fiber"
-import { Box2, Camera, ColorRepresentation, Matrix3, Scene, Vector2, Vector4,
-  WebGLRenderer } from "three"
+import { Box2, Camera, Color, ColorRepresentation, HalfFloatType, Matrix3,
+  Scene, Texture, Vector2, Vector4, WebGLRenderer, WebGLRenderTarget }
+  from "three"
 
 import { RegisterLayer } from "./Layer"
 import { ComponentVolatileRegistry, useComponentVolatileRegistryHandlers }
   from "../../motion/Component"
 import { useVolatile, Volatile } from "../../motion/Volatile"
 import { NotImplementedProxy } from "../../utils/NotImplementedProxy"
-import { initializeRenderSteps, newRenderStepIdentifier,
-  RenderStepIdentifierType, UserInterfaceStage } from "./Stages"
+import { initializeRenderSteps, newRenderStepIdentifier, OffscreenStage,
+  PostProcessingStage, RenderStepIdentifierType } from "./Stages"
 import { PartiallyOrderedSet } from "../../utils/PartiallyOrderedSet"
 import { error } from "../../logging/Log"
 import { inspectRoot } from "../../utils/Debug"
+import { exportVolatileGraph, VolatileGraphFormat }
+  from "../../utils/VolatileGraph"
 import { useCommonMaterialValues } from "../../material/CommonMaterialValues"
 import { useTheme } from "../../configuration/Theme"
 
@@ -65,9 +69,35 @@ const executeInSubview = (
   physicalSubviewMatrix.copy(savedSubviewMatrix)
 }
 
+// Binds a cleared render target and sets up the shader uniforms so that the
+// whole view is rendered into it. Can be called recursively.
+const executeInRenderTarget = (
+  gl: WebGLRenderer,
+  physicalSubviewMatrix: Matrix3,
+  screenBounds: Box2,
+  target: WebGLRenderTarget,
+  callback: (gl: WebGLRenderer) => void
+) => {
+  const savedSubviewMatrix = physicalSubviewMatrix.clone()
+  const savedTarget = gl.getRenderTarget()
+  const savedClearColor = gl.getClearColor(new Color())
+  const savedClearAlpha = gl.getClearAlpha()
+  physicalSubviewMatrix.copy(viewToSubviewMatrix(
+    screenBounds,
+    new Box2(new Vector2(0, 0), new Vector2(target.width, target.height))
+  ))
+  gl.setRenderTarget(target)
+  gl.setClearColor(0x000000, 0)
+  gl.clear()
+  callback(gl)
+  gl.setClearColor(savedClearColor, savedClearAlpha)
+  gl.setRenderTarget(savedTarget)
+  physicalSubviewMatrix.copy(savedSubviewMatrix)
+}
+
 type ComponentIdType = ReturnType<typeof useId>
 
-type RenderOptions = {
+export type RenderOptions = {
   clearColor?: ColorRepresentation
   disableClear?: boolean
   renderedComponents?: { [id: ComponentIdType]: number }
@@ -88,27 +118,28 @@ const renderLayer = (
   gl.render(scene, camera)
 }
 
-type RenderRoutine = (options: RenderOptions) => void
+export type RenderRoutine = (options: RenderOptions) => void
 
-const updateSortedRenderSteps = (
+// Render steps and post-processing passes are ordered alike
+const updateSortedRenderSteps = <T,> (
   renderStepIdentifiers: PartiallyOrderedSet<RenderStepIdentifierType>,
-  renderSteps: Map<RenderStepIdentifierType, RenderRoutine>
+  renderSteps: Map<RenderStepIdentifierType, T>
 ) => {
-  const sorted = []
+  const sorted: T[] = []
   for (const identifier of renderStepIdentifiers.sortedValues())
     if (renderSteps.has(identifier))
       sorted.push(renderSteps.get(identifier)!)
   return sorted
 }
 
-const registerRenderStep = (
+const registerRenderStep = <T,> (
   renderStepIdentifiers: PartiallyOrderedSet<RenderStepIdentifierType>,
-  renderSteps: Map<RenderStepIdentifierType, RenderRoutine>,
-  sortedRenderStepsRef: RefObject<RenderRoutine[]>,
+  renderSteps: Map<RenderStepIdentifierType, T>,
+  sortedRenderStepsRef: RefObject<T[]>,
   identifier: RenderStepIdentifierType,
   after: Iterable<RenderStepIdentifierType>,
   before: Iterable<RenderStepIdentifierType>,
-  render: RenderRoutine
+  render: T
 ) => {
   renderSteps.set(identifier, render)
   renderStepIdentifiers.add(identifier)
@@ -144,6 +175,55 @@ const registerRenderStep = (
   }
 }
 
+/**
+ * A full-screen effect applied to the first layer of a renderer, i.e. the main
+ * scene, before the user interface layers are rendered on top of it.
+ */
+export interface PostProcessingPass {
+  /**
+   * Renders the pass into the bound render target, which is either an
+   * intermediate target or the output of the renderer for the last pass.
+   * @param gl the WebGL renderer
+   * @param input the texture holding the output of the previous pass, in
+   * linear color space
+   */
+  render (gl: WebGLRenderer, input: Texture): void
+}
+
+// Holds the intermediate render targets of post-processing passes, which
+// follow the size of the drawing buffer. The scene is first rendered into the
+// first one; passes then alternate between both.
+class PostProcessingTargets {
+  private readonly targets: WebGLRenderTarget[]
+  private readonly size: Vector2
+
+  constructor () {
+    this.targets = []
+    this.size = new Vector2()
+  }
+
+  public get (gl: WebGLRenderer, index: number) {
+    gl.getDrawingBufferSize(this.size)
+    if (!this.targets.length)
+      this.targets.push(
+        new WebGLRenderTarget(this.size.x, this.size.y, {
+          type: HalfFloatType,
+          samples: gl.getContext().getContextAttributes()?.antialias? 4: 0
+        }),
+        new WebGLRenderTarget(this.size.x, this.size.y, { type: HalfFloatType })
+      )
+    const target = this.targets[index % 2]
+    if (target.width !== this.size.x || target.height !== this.size.y)
+      target.setSize(this.size.x, this.size.y)
+    return target
+  }
+
+  public dispose () {
+    this.targets.forEach((target) => target.dispose())
+    this.targets.length = 0
+  }
+}
+
 type Unregister = () => void
 
 export interface RendererInterface {
@@ -167,8 +247,19 @@ export interface RendererInterface {
     before: Iterable<RenderStepIdentifierType>,
     renderer: RenderRoutine
   ): Unregister
+  registerPass (
+    identifier: RenderStepIdentifierType,
+    after: Iterable<RenderStepIdentifierType>,
+    before: Iterable<RenderStepIdentifierType>,
+    pass: PostProcessingPass
+  ): Unregister
   resolveComponentVolatiles (): void
+  exportVolatileGraph (format?: VolatileGraphFormat): string
   subview (bounds: Box2, callback: () => void): void
+  renderToTarget (
+    target: WebGLRenderTarget,
+    callback: (gl: WebGLRenderer) => void
+  ): void
   render (options?: RenderOptions): void
 }
 
@@ -199,7 +290,8 @@ export const Renderer = forwardRef(
     const { physicalSubviewMatrix } = useCommonMaterialValues()
     const [
       registerComponentVolatile,
-      resolveComponentVolatiles
+      resolveComponentVolatiles,
+      getComponentVolatiles
     ] = useComponentVolatileRegistryHandlers()
     const bounds = useMemo(
       () => {
@@ -229,6 +321,21 @@ export const Renderer = forwardRef(
 
     const firstLayerIdentifier = useMemo(() => newRenderStepIdentifier(), [])
 
+    const passIdentifiers = useMemo(
+      () => new PartiallyOrderedSet<RenderStepIdentifierType>(),
+      []
+    )
+    const passes = useMemo(
+      () => new Map<RenderStepIdentifierType, PostProcessingPass>(),
+      []
+    )
+    const sortedPassesRef = useRef<PostProcessingPass[]>([])
+    const postProcessingTargets = useMemo(
+      () => new PostProcessingTargets(),
+      []
+    )
+    useEffect(() => () => postProcessingTargets.dispose(), [])
+
     const rendererInterface: RendererInterface = useMemo(() => ({
       size: size,
       bounds: bounds,
@@ -269,9 +376,22 @@ export const Renderer = forwardRef(
           before,
           options => renderer(options)
         ),
+      registerPass: (identifier, after, before, pass) =>
+        registerRenderStep(
+          passIdentifiers,
+          passes,
+          sortedPassesRef,
+          identifier,
+          after,
+          before,
+          pass
+        ),
       resolveComponentVolatiles () {
         resolveComponentVolatiles(() => beforeRenderSignal.set(1))
       },
+      exportVolatileGraph (format) {
+        return exportVolatileGraph(getComponentVolatiles(), format)
+      },
       subview (viewBounds: Box2, callback: () => void) {
         executeInSubview(
           gl,
@@ -281,6 +401,15 @@ export const Renderer = forwardRef(
           callback
         )
       },
+      renderToTarget (target, callback) {
+        executeInRenderTarget(
+          gl,
+          physicalSubviewMatrix,
+          bounds.clone(),
+          target,
+          callback
+        )
+      },
       render (options = {}) {
         sortedRenderStepsRef.current.forEach((render) => render(options))
       }
@@ -294,6 +423,47 @@ export const Renderer = forwardRef(
       renderSteps
     ])
 
+    // When passes are registered, the first layer is rendered into an
+    // intermediate target, which the passes then render to the output
+    useEffect(() => {
+      const { registerRenderer } = rendererInterface
+      let output: WebGLRenderTarget | null = null
+      const unregisterStart = registerRenderer(
+        newRenderStepIdentifier(),
+        [OffscreenStage.end],
+        [firstLayerIdentifier],
+        () => {
+          if (!sortedPassesRef.current.length)
+            return
+          output = gl.getRenderTarget()
+          gl.setRenderTarget(postProcessingTargets.get(gl, 0))
+        }
+      )
+      const unregisterPasses = registerRenderer(
+        newRenderStepIdentifier(),
+        [PostProcessingStage.start],
+        [PostProcessingStage.end],
+        () => {
+          const sortedPasses = sortedPassesRef.current
+          if (!sortedPasses.length)
+            return
+          sortedPasses.forEach((pass, i) => {
+            const input = postProcessingTargets.get(gl, i).texture
+            gl.setRenderTarget(
+              i === sortedPasses.length - 1
+                ? output
+                : postProcessingTargets.get(gl, i + 1)
+            )
+            pass.render(gl, input)
+          })
+        }
+      )
+      return () => {
+        unregisterStart()
+        unregisterPasses()
+      }
+    }, [rendererInterface, firstLayerIdentifier])
+
     useImperativeHandle(ref, () => rendererInterface, [rendererInterface])
 
     return (
@@ -304,7 +474,8 @@ export const Renderer = forwardRef(
         <RegisterLayer
           clear={true}
           identifier={firstLayerIdentifier}
-          before={[UserInterfaceStage.start]}
+          after={[OffscreenStage.end]}
+          before={[PostProcessingStage.start]}
           />
       </RendererContext.Provider>
     )
@@ -5,7 +5,7 @@ export type RenderStepIdentifierType = symbol
 
 export const newRenderStepIdentifier = (name?: string) => Symbol(name)
 
-const commonSteps = [...Array(4).keys()].map(() => newRenderStepIdentifier())
+const commonSteps = [...Array(7).keys()].map(() => newRenderStepIdentifier())
 
 type Stage = {
   start: RenderStepIdentifierType
@@ -18,9 +18,14 @@ const createStage =
     end: end
   })
 
-export const UserInterfaceStage = createStage(commonSteps[0], commonSteps[1])
-export const SubviewStage = createStage(commonSteps[1], commonSteps[2])
-export const GlobalOverlayStage = createStage(commonSteps[2], commonSteps[3])
+// Offscreen renders precede the first layer, so that render targets are up to
+// date when displayed
+export const OffscreenStage = createStage(commonSteps[0], commonSteps[1])
+// Post-processing passes apply to the first layer only, between both stages
+export const PostProcessingStage = createStage(commonSteps[2], commonSteps[3])
+export const UserInterfaceStage = createStage(commonSteps[3], commonSteps[4])
+export const SubviewStage = createStage(commonSteps[4], commonSteps[5])
+export const GlobalOverlayStage = createStage(commonSteps[5], commonSteps[6])
 
 export const initializeRenderSteps = () => {
   const set = new PartiallyOrderedSet<RenderStepIdentifierType>()
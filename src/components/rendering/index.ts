@@ -1,3 +1,7 @@
 export { useRenderer } from "./Renderer"
 export { Layer } from "./Layer"
 export { UpperLayerTransport } from "./UpperLayerTransport"
+export { RenderTargetLayer, useRenderToTexture } from "./RenderTarget"
+export { BloomPass, bloomPass, fxaaPass, OutlinePass, outlinePass,
+  PostProcessing, ShaderPass, toneMappingPass, useOutlineMask,
+  usePostProcessingPasses, vignettePass } from "./PostProcessing"
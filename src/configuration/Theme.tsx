@@ -5,8 +5,43 @@ import { NotImplementedProxy } from "../utils/NotImplementedProxy"
 import { ColorRepresentation } from "three"
 
 
-interface AnimationConfiguration {
+/**
+ * The motion model of animated values:
+ * - `"linear"` moves towards the target at a constant `speed`;
+ * - `"spring"` simulates a spring of the specified `stiffness`, `damping` and
+ * `mass`, which may overshoot the target;
+ * - `"criticallyDamped"` reaches the target in about `smoothTime` seconds
+ * without overshooting;
+ * - `"smooth"` covers a constant fraction of the remaining distance per unit
+ * of time, with a time constant of `smoothTime` seconds.
+ */
+export type AnimationModel =
+  "linear" | "spring" | "criticallyDamped" | "smooth"
+
+/**
+ * How much motion animations may involve, e.g. for users who get motion
+ * sickness:
+ * - `"full"` animates all values;
+ * - `"reduced"` moves, scales and resizes objects instantly, while colors,
+ * opacities and other non-spatial values are still animated;
+ * - `"none"` sets all animated values instantly.
+ *
+ * When the theme does not specify a policy, it follows the
+ * `prefers-reduced-motion` media query. It can be overridden for a subtree
+ * with {@link OverrideTheme}, e.g. `<OverrideTheme path="animation"
+ * policy="none">`.
+ */
+export type MotionPolicy = "full" | "reduced" | "none"
+
+export interface AnimationConfiguration {
   speed: number
+  policy?: MotionPolicy
+  model?: AnimationModel
+  stiffness?: number
+  damping?: number
+  mass?: number
+  smoothTime?: number
+  precision?: number
 }
 
 interface BoxConfiguration {
@@ -1,8 +1,19 @@
 export * from "./motion/Volatile"
+export * from "./motion/Async"
+export * from "./motion/Snapshot"
+export * from "./motion/History"
+export * from "./motion/Interop"
+export * from "./motion/Clock"
+export { ClockProvider, useAnimatedColor, useAnimatedNumber, useClock,
+  useMotionPolicy } from "./motion/Animation"
+export * from "./motion/Easing"
+export * from "./motion/Timeline"
+export * from "./motion/Presence"
 export * from "./motion/Component"
 export * from "./configuration/Theme"
 export * from "./primitives/index"
 export * as Input from "./input"
 export * as Log from "./logging/Log"
 export * as Tracking from "./tracking"
+export * as Profiling from "./utils/Profiler"
 export { Application } from "./Application"
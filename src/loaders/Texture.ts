@@ -1,8 +1,8 @@
 import { CanvasTexture, LinearFilter, Vector2 } from "three"
 
 import { Cache } from "../utils/Cache"
-import { PotentialVolatile, ResourceHandle, useDelayedDerivatedVolatile }
-  from "../motion/Volatile"
+import { PotentialVolatile, ResourceHandle } from "../motion/Volatile"
+import { useAsyncVolatile } from "../motion/Async"
 import { SizeValueType } from "../primitives/ValueTypes"
 import { useVolatileVector2Size } from "../primitives/Normalizers"
 
@@ -11,12 +11,14 @@ const cache = new Cache<unknown, ResourceHandle<CanvasTexture>>()
 
 /**
  * Returns a volatile texture loaded from the specified image `path` using a
- * `Canvas` element.
+ * `Canvas` element. When the size changes while a texture is loading, only the
+ * texture matching the latest size is kept. If the image cannot be loaded, the
+ * volatile holds the error.
  * @param path the path to the image to load
  * @param size the volatile or static size of the canvas
  * @param upscale an optional upscale factor
  * @param cssFilter an optional css `filter` attribute
- * @returns a volatile holding a `CanvasTexture` object
+ * @returns an async volatile holding a `CanvasTexture` object
  */
 export const useLoadedTextureFromStaticResource = (
   path: string,
@@ -24,19 +26,27 @@ export const useLoadedTextureFromStaticResource = (
   upscale = 1,
   cssFilter = ""
 ) => (
-  useDelayedDerivatedVolatile<
+  useAsyncVolatile<
     ResourceHandle<CanvasTexture>,
     Vector2
   > (
     useVolatileVector2Size(size),
-    ([width, height], load) => {
+    ([width, height]) => new Promise((resolve, reject) => {
       cache.runOnce(
         [path, width, height, upscale, cssFilter],
-        load, (set, unset) => {
+        (handle) => {
+          // Transfers a reference to the async volatile, which releases it
+          // once the texture is replaced. If the load was aborted meanwhile,
+          // e.g. because the size changed, and no other component uses the
+          // texture, releasing it disposes of it and removes it from the cache.
+          handle.attach()
+          resolve(handle)
+        },
+        (set, unset, fail) => {
           const canvas = document.createElement("canvas")
           const context = canvas.getContext("2d")
           if (!context)
-            throw new Error("Could not acquire Canvas context.")
+            return fail(new Error("Could not acquire Canvas context."))
           canvas.width = width * upscale
           canvas.height = height * upscale
           const image = new Image()
@@ -63,9 +73,13 @@ export const useLoadedTextureFromStaticResource = (
               )
             )
           }
+          image.onerror = () =>
+            fail(new Error(`Could not load image '${path}'.`))
           image.src = path
-        }
+        },
+        reject
       )
-    }
+    }),
+    [path, upscale, cssFilter]
   )
 )
@@ -22,17 +22,36 @@ type BasicShaderMaterialParameters = {
 }
 
 /**
- * Basic extensible shader material.
+ * Basic extensible shader material. Its color and opacity can be animated like
+ * those of built-in materials, through the `color` object and the `opacity`
+ * property, e.g. by the volatile `color` and `opacity` attributes of
+ * components (see {@link Component}).
  */
 export class BasicShaderMaterial extends ExtensibleShaderMaterial {
-  constructor ({ color, opacity = 1.0 }: BasicShaderMaterialParameters) {
+  constructor (
+    { color, opacity = 1.0 }: BasicShaderMaterialParameters = {}
+  ) {
     const colorValue = new Color(color)
     super({
       uniforms: {
         uRCColor: { value: colorValue },
         uRCOpacity: { value: opacity }
       },
-      fragmentShader: basicFragmentShader
+      fragmentShader: basicFragmentShader,
+      opacity
     })
   }
+
+  /**
+   * The color of the material, bound to the `uRCColor` uniform.
+   */
+  public get color (): Color {
+    return this.uniforms.uRCColor.value
+  }
+
+  // The opacity is copied to its uniform before each render, since it is a
+  // plain property of the base material
+  public onBeforeRender () {
+    this.uniforms.uRCOpacity.value = this.opacity
+  }
 }
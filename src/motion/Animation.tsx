@@ -1,49 +1,297 @@
-import React, { useEffect, useId, useRef } from "react"
-import { Vector2, Vector3 } from "three"
+import React, { createContext, ReactNode, useContext, useEffect, useId, useRef,
+  useSyncExternalStore } from "react"
+import { useFrame } from "@react-three/fiber"
+import { Color, ColorRepresentation, Vector2, Vector3 } from "three"
 
-import { RootVolatile, useDerivatedVolatile, Volatile } from "./Volatile"
+import { EqualityFunction, RootVolatile, useDerivatedVolatile, Volatile }
+  from "./Volatile"
 import { useRenderer } from "../components/rendering"
 import { Vector2ConstructorExtended, Vector3ConstructorExtended,
   Vector3ConstructorSingleParameterTypes } from "../primitives/Constructors"
 import { SizeValueType } from "../primitives/ValueTypes"
+import { equalColor, equalVector3 } from "../primitives/Equality"
+import { colorToOklab, oklabToColor } from "../primitives/Color"
 import { use3DScaleFromSize } from "../utils/Transform"
-import { useTheme } from "../configuration/Theme"
+import { AnimationConfiguration, AnimationModel, MotionPolicy, useTheme }
+  from "../configuration/Theme"
+import { Clock, RealClock } from "./Clock"
 
 
 const currentAnimatedTargets = new Set()
 
-const useClock = () => () => window.performance.now() / 1000
+const defaultClock = new RealClock()
+
+let animationClock: Clock = defaultClock
+
+// Clocks ticked and paused by the animation handler, i.e. the default one and
+// the provided ones, with their number of providers
+const animatedClocks = new Map<Clock, number>([[defaultClock, 1]])
+
+// Requests a frame from the animation handler, if any
+let requestFrame: (() => void) | undefined = undefined
+
+const addAnimatedTarget = (target: unknown) => {
+  if (currentAnimatedTargets.has(target))
+    return
+  currentAnimatedTargets.add(target)
+  // Animations may be started outside of a frame, e.g. by an event handler
+  if (currentAnimatedTargets.size === 1)
+    requestFrame?.()
+}
+
+/**
+ * Returns the current time of the animation clock (see {@link Clock}).
+ * @returns the time, in milliseconds
+ */
+export const getAnimationTime = () => animationClock.now()
+
+const ClockContext = createContext<Clock>(defaultClock)
+
+/**
+ * Hook that returns the animation clock of the current subtree (see
+ * {@link ClockProvider}).
+ * @returns the clock
+ */
+export const useClock = () => useContext(ClockContext)
 
 // This signal is set before each animation-triggered render and is used to
 // ensure that animation values are invalidated even when their actual source
 // is not. Targets may stay registered indefinitely otherwise.
 const animationSignal = new RootVolatile(1)
 
+/**
+ * Calls a function on each animation tick, i.e. before each render triggered
+ * by the animation handler. Ticks are generated, and the renderer invalidated,
+ * as long as at least one function is subscribed.
+ * @param callback the function to call, with the animation time in
+ * milliseconds
+ * @returns a callback function to unsubscribe
+ */
+export const subscribeAnimationTick = (callback: (time: number) => void) => {
+  const target = Symbol()
+  addAnimatedTarget(target)
+  const unobserve = animationSignal.observe(() => callback(getAnimationTime()))
+  return () => {
+    unobserve()
+    currentAnimatedTargets.delete(target)
+  }
+}
+
+const isPageHidden = () =>
+  typeof document !== "undefined" && document.hidden
+
+const addAnimatedClock = (clock: Clock) => {
+  const count = animatedClocks.get(clock) ?? 0
+  animatedClocks.set(clock, count + 1)
+  if (!count)
+    clock.setPaused(isPageHidden())
+  return () => {
+    const count = animatedClocks.get(clock)! - 1
+    if (count)
+      return void animatedClocks.set(clock, count)
+    animatedClocks.delete(clock)
+    clock.setPaused(false)
+  }
+}
+
+/**
+ * Provides an animation clock to the `children` subtree, which is used by the
+ * animation hooks (see {@link useClock}). While provided, the clock is ticked
+ * and paused by the animation handler along with its own clock, which is the
+ * one provided above it, e.g. by `Application`; the latter also gives its time
+ * to {@link getAnimationTime} and {@link subscribeAnimationTick}. Animation
+ * ticks are triggered when the clock notifies a change, e.g. when a
+ * {@link ManualClock} is advanced.
+ * @param props.clock the clock
+ * @param props.children classic React children
+ */
+export const ClockProvider = (
+  { clock, children }: { clock: Clock, children: ReactNode }
+) => {
+  useEffect(() => {
+    const removeClock = addAnimatedClock(clock)
+    const unsubscribe = clock.subscribe?.(() => animationSignal.set(1))
+    return () => {
+      unsubscribe?.()
+      removeClock()
+    }
+  }, [clock])
+  return (
+    <ClockContext.Provider value={clock}>
+      {children}
+    </ClockContext.Provider>
+  )
+}
+
 const useAnimation = () => {
   const id = useId()
   return [
-    () => currentAnimatedTargets.add(id),
+    () => addAnimatedTarget(id),
     () => currentAnimatedTargets.delete(id)
   ]
 }
 
-const useAnimatedLinearVector3 = (
+/**
+ * Animation settings which can be specified per call, overriding those of
+ * the theme (see {@link AnimationConfiguration}).
+ */
+export type AnimationOptions = Partial<AnimationConfiguration>
+
+type ResolvedAnimationConfiguration = Required<AnimationConfiguration>
+
+const defaultAnimationConfiguration: Omit<
+  ResolvedAnimationConfiguration, "speed" | "policy"
+> = {
+  model: "linear",
+  stiffness: 170,
+  damping: 26,
+  mass: 1,
+  smoothTime: 0.15,
+  precision: 0.001
+}
+
+const reducedMotionQuery = "(prefers-reduced-motion: reduce)"
+
+const subscribeReducedMotion = (listener: () => void) => {
+  if (typeof matchMedia === "undefined")
+    return () => {}
+  const query = matchMedia(reducedMotionQuery)
+  query.addEventListener("change", listener)
+  return () => query.removeEventListener("change", listener)
+}
+
+const getSystemMotionPolicy = (): MotionPolicy =>
+  typeof matchMedia !== "undefined" && matchMedia(reducedMotionQuery).matches
+    ? "reduced"
+    : "full"
+
+const useAnimationConfiguration = (
+  options?: AnimationOptions
+): ResolvedAnimationConfiguration => ({
+  ...defaultAnimationConfiguration,
+  policy: useSyncExternalStore(
+    subscribeReducedMotion,
+    getSystemMotionPolicy,
+    () => "full" as const
+  ),
+  ...useTheme().animation,
+  ...options
+})
+
+/**
+ * Hook that returns the motion policy of the current subtree, i.e. the one of
+ * the theme, or the one following the `prefers-reduced-motion` media query
+ * (see {@link MotionPolicy}). Custom animations should honor it.
+ * @returns the motion policy
+ */
+export const useMotionPolicy = (): MotionPolicy =>
+  useAnimationConfiguration().policy
+
+// Spring simulations are integrated with steps of at most this duration, in
+// seconds, to remain stable with stiff springs or long frames
+const MAX_SPRING_STEP = 1 / 240
+
+// Longer frames, e.g. after the page was hidden, only advance spring
+// simulations by this duration, in seconds, which bounds the number of steps
+const MAX_SPRING_DELTA = 1 / 10
+
+// Advances `current` and `velocity` towards `target` in place over `delta`
+// seconds
+type StepFunction = (
+  current: Vector3,
+  velocity: Vector3,
+  target: Vector3,
+  delta: number,
+  configuration: ResolvedAnimationConfiguration
+) => void
+
+const steps: { [M in AnimationModel]: StepFunction } = {
+  linear: (current, velocity, target, delta, { speed }) => {
+    current.add(target.clone().sub(current).clampLength(0, speed * delta))
+    velocity.set(0, 0, 0)
+  },
+  spring: (current, velocity, target, delta, { stiffness, damping, mass }) => {
+    const simulated = Math.min(delta, MAX_SPRING_DELTA)
+    const count = Math.ceil(simulated / MAX_SPRING_STEP)
+    const dt = simulated / count
+    const force = new Vector3()
+    for (let i = 0; i < count; i++) {
+      force.subVectors(target, current).multiplyScalar(stiffness)
+        .addScaledVector(velocity, -damping)
+      velocity.addScaledVector(force, dt / mass)
+      current.addScaledVector(velocity, dt)
+    }
+  },
+  // Closed-form approximation of a critically damped spring, see "Critically
+  // Damped Ease-In/Ease-Out Smoothing" in Game Programming Gems 4
+  criticallyDamped: (current, velocity, target, delta, { smoothTime }) => {
+    const omega = 2 / smoothTime
+    const x = omega * delta
+    const decay = 1 / (1 + x + 0.48 * x * x + 0.235 * x * x * x)
+    const change = current.clone().sub(target)
+    const temp = velocity.clone().addScaledVector(change, omega)
+      .multiplyScalar(delta)
+    velocity.addScaledVector(temp, -omega).multiplyScalar(decay)
+    current.copy(target).add(change.add(temp).multiplyScalar(decay))
+  },
+  smooth: (current, velocity, target, delta, { smoothTime }) => {
+    const previous = current.clone()
+    current.lerp(target, 1 - Math.exp(-delta / smoothTime))
+    velocity.subVectors(current, previous).divideScalar(delta || Infinity)
+  }
+}
+
+// Spatial values are set instantly with the reduced motion policy
+const useAnimatedVector3 = (
   vector: Volatile<Vector3ConstructorSingleParameterTypes>,
-  speed: number
+  configuration: ResolvedAnimationConfiguration,
+  equals?: EqualityFunction<Vector3>,
+  spatial = true
 ): Volatile<Vector3> => {
   const [startAnimation, stopAnimation] = useAnimation()
-  const getNow = useClock()
+  const clock = useClock()
+  const getNow = () => clock.now() / 1000
   const active = useRef(false)
   const lastUpdate = useRef(getNow())
   const currentVector = useRef<Vector3>(null)
+  // The velocity is kept when the target changes while animating, so that
+  // physics-based models move smoothly towards the new target
+  const velocity = useRef(new Vector3())
   useEffect(() => () => void stopAnimation(), [])
+  const {
+    model, speed, stiffness, damping, mass, smoothTime, precision, policy
+  } = configuration
+  const instant = policy === "none" || (spatial && policy === "reduced")
   return useDerivatedVolatile([vector, animationSignal], (value, _) => {
     const targetPosition = Vector3ConstructorExtended.create(value)
     const now = getNow()
     if (!active.current)
       lastUpdate.current = now
-    if (!currentVector.current)
+    if (
+      instant
+        || !currentVector.current
+        || !isFinite(currentVector.current.length())
+    ) {
       currentVector.current = new Vector3ConstructorExtended(targetPosition)
+      velocity.current.set(0, 0, 0)
+    }
+    steps[model](
+      currentVector.current,
+      velocity.current,
+      targetPosition,
+      now - lastUpdate.current,
+      configuration
+    )
+    // Physics-based models only converge towards the target; they are
+    // settled once close enough to it and slow enough
+    if (
+      model !== "linear"
+        && currentVector.current.distanceTo(targetPosition) < precision
+        && velocity.current.length() < precision
+    ) {
+      currentVector.current.copy(targetPosition)
+      velocity.current.set(0, 0, 0)
+    }
     if (currentVector.current.equals(targetPosition)) {
       stopAnimation()
       active.current = false
@@ -51,75 +299,191 @@ const useAnimatedLinearVector3 = (
       startAnimation()
       active.current = true
     }
-    const nextVector = !isFinite(currentVector.current.length())
-      ? targetPosition
-      : currentVector.current.add(
-        targetPosition.sub(currentVector.current).clampLength(
-          0,
-          speed * (now - lastUpdate.current)
-        )
-      )
-    currentVector.current = nextVector
     lastUpdate.current = now
-    return new Vector3(nextVector.x, nextVector.y, nextVector.z)
-  }, [speed])
+    const { x, y, z } = currentVector.current
+    return new Vector3(x, y, z)
+  }, [
+    clock, model, speed, stiffness, damping, mass, smoothTime, precision,
+    instant
+  ], false, equals)
 }
 
 /**
- * Derives a volatile position.
+ * Derives a volatile position. The motion model and its settings are read from
+ * the theme (see {@link AnimationConfiguration}) unless specified in
+ * `options`. The position is set instantly unless the motion policy is
+ * `"full"` (see {@link MotionPolicy}).
  * @param position the target position volatile
+ * @param options optional animation settings overriding those of the theme
  * @returns the derived position volatile
  */
 export const useAnimatedPosition = (
-  position: Volatile<Vector3ConstructorSingleParameterTypes>
+  position: Volatile<Vector3ConstructorSingleParameterTypes>,
+  options?: AnimationOptions
 ): Volatile<Vector3> => (
-  useAnimatedLinearVector3(position, useTheme().animation.speed)
+  useAnimatedVector3(
+    position,
+    useAnimationConfiguration(options),
+    equalVector3
+  )
 )
 
 /**
- * Derives a volatile scale.
+ * Derives a volatile scale (see {@link useAnimatedPosition}).
  * @param scale the target scale volatile
+ * @param options optional animation settings overriding those of the theme
  * @returns the derived scale volatile
  */
 export const useAnimatedScale = (
-  scale: Volatile<Vector3ConstructorSingleParameterTypes>
+  scale: Volatile<Vector3ConstructorSingleParameterTypes>,
+  options?: AnimationOptions
 ): Volatile<Vector3> => (
-  useAnimatedLinearVector3(scale, useTheme().animation.speed)
+  useAnimatedVector3(scale, useAnimationConfiguration(options), equalVector3)
 )
 
 /**
- * Derives a volatile size.
+ * Derives a volatile size (see {@link useAnimatedPosition}).
  * @param size the target scale volatile
+ * @param options optional animation settings overriding those of the theme
  * @returns the derived scale volatile
  */
 export const useAnimatedSize = (
-  size: Volatile<SizeValueType>
+  size: Volatile<SizeValueType>,
+  options?: AnimationOptions
 ): Volatile<Vector2> => (
+  // No equality function here: some size consumers also read the scene graph
+  // (e.g. world positions) and rely on being recomputed on each animation tick
   useDerivatedVolatile(
-    useAnimatedLinearVector3(
+    useAnimatedVector3(
       use3DScaleFromSize(size),
-      useTheme().animation.speed
+      useAnimationConfiguration(options)
     ),
     ([width, height, _]) => new Vector2ConstructorExtended(width, height)
   )
 )
 
+// The speed of the theme is expressed in pixels per second: with the linear
+// model, numbers and colors move by this amount per second instead, unless
+// specified in the options
+const DEFAULT_VALUE_SPEED = 4
+
+const useValueAnimationConfiguration = (
+  options?: AnimationOptions
+): ResolvedAnimationConfiguration => ({
+  ...useAnimationConfiguration(),
+  speed: DEFAULT_VALUE_SPEED,
+  ...options
+})
+
+/**
+ * Derives a volatile number, e.g. an opacity (see {@link useAnimatedPosition}).
+ * With the linear model, the `speed` is expressed in units per second and
+ * defaults to `4`, so that values between `0` and `1` settle within 250ms.
+ * @param value the target number volatile
+ * @param options optional animation settings overriding those of the theme
+ * @returns the derived number volatile
+ */
+export const useAnimatedNumber = (
+  value: Volatile<number>,
+  options?: AnimationOptions
+): Volatile<number> => (
+  useDerivatedVolatile(
+    useAnimatedVector3(
+      useDerivatedVolatile(value, (value) => new Vector3(value, 0, 0)),
+      useValueAnimationConfiguration(options),
+      equalVector3,
+      false
+    ),
+    ({ x }) => x,
+    [],
+    false,
+    (a, b) => a === b
+  )
+)
+
+/**
+ * Derives a volatile color (see {@link useAnimatedPosition}). Colors are
+ * interpolated in the OKLab perceptual color space, so that intermediate
+ * colors keep a consistent lightness (see {@link colorToOklab}). With the
+ * linear model, the `speed` is expressed in OKLab units per second and
+ * defaults to `4`.
+ * @param color the target color volatile
+ * @param options optional animation settings overriding those of the theme
+ * @returns the derived color volatile
+ */
+export const useAnimatedColor = (
+  color: Volatile<ColorRepresentation>,
+  options?: AnimationOptions
+): Volatile<Color> => (
+  useDerivatedVolatile(
+    useAnimatedVector3(
+      useDerivatedVolatile(color, (value) => colorToOklab(new Color(value))),
+      useValueAnimationConfiguration(options),
+      equalVector3,
+      false
+    ),
+    oklabToColor,
+    [],
+    false,
+    equalColor
+  )
+)
+
+/**
+ * Drives animations from the render loop: while animations are running, the
+ * clocks are ticked and the animation signal set before the component
+ * volatiles are resolved, and a new frame is requested after each render.
+ * Animations are paused while the page is hidden. The clock of the handler is
+ * read from the context, and all the provided clocks are ticked (see
+ * {@link ClockProvider}).
+ */
 export const AnimationHandler = () => {
   const { invalidate } = useRenderer()
+  const activeClock = useClock()
 
   useEffect(() => {
-    const interval = setInterval(
-      () => {
-        if (currentAnimatedTargets.size) {
-          animationSignal.set(1)
-          invalidate()
-        }
-      },
-      // TODO: check how to retrieve the screen frame rate
-      16
-    )
-    return () => clearInterval(interval)
-  })
+    animationClock = activeClock
+    requestFrame = () => {
+      if (!isPageHidden())
+        invalidate()
+    }
+    // Animations may have been started before the handler was mounted
+    if (currentAnimatedTargets.size)
+      requestFrame()
+    return () => {
+      animationClock = defaultClock
+      requestFrame = undefined
+    }
+  }, [activeClock, invalidate])
+
+  useEffect(() => {
+    if (typeof document === "undefined")
+      return
+    const onVisibilityChange = () => {
+      animatedClocks.forEach((_, clock) => clock.setPaused(document.hidden))
+      if (currentAnimatedTargets.size)
+        requestFrame?.()
+    }
+    onVisibilityChange()
+    document.addEventListener("visibilitychange", onVisibilityChange)
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibilityChange)
+      animatedClocks.forEach((_, clock) => clock.setPaused(false))
+    }
+  }, [])
+
+  // -4 executes before component volatiles are resolved
+  useFrame(() => {
+    if (!currentAnimatedTargets.size || isPageHidden())
+      return
+    animatedClocks.forEach((_, clock) => clock.tick())
+    animationSignal.set(1)
+  }, -4)
+  // Executes after render; targets are registered during resolution
+  useFrame(() => {
+    if (currentAnimatedTargets.size)
+      requestFrame?.()
+  }, 2)
 
   return <></>
 }
@@ -0,0 +1,191 @@
+import { useEffect, useMemo } from "react"
+
+import {
+  isResourceHandle,
+  ResourceHandle,
+  RootVolatile,
+  SourceArray,
+  useDerivatedVolatile,
+  Volatile
+} from "./Volatile"
+
+/**
+ * A root volatile whose value is produced by asynchronous computations. Only
+ * the latest computation may set the value: starting a new one aborts the
+ * previous one through its `AbortSignal` and its result, if any, is discarded.
+ * Computations should observe the signal to release the resources they
+ * allocate once aborted. When a computation fails, the volatile is unset and
+ * the error is exposed through `getError` until the next successful result.
+ * Computations producing a resource handle must attach to it: the volatile
+ * takes over that reference, and detaches from the handle once it is replaced,
+ * unset or discarded because the computation was aborted.
+ * @template T the value type
+ */
+export class AsyncVolatile<T> extends RootVolatile<T> {
+  private controller?: AbortController
+  private error: unknown
+
+  constructor () {
+    super()
+    this.controller = undefined
+    this.error = undefined
+  }
+
+  /**
+   * Starts a computation whose result will be set as the volatile value,
+   * aborting the computation in progress if any.
+   * @param compute the function that computes the value
+   */
+  public run (compute: (signal: AbortSignal) => Promise<T>): void {
+    const signal = this.restart()
+    compute(signal).then(
+      (value) => void (signal.aborted? release(value): this.resolve(value)),
+      (error) => void (signal.aborted || this.reject(error))
+    )
+  }
+
+  /**
+   * Sets each value produced by an async iterable as the volatile value,
+   * aborting the computation in progress if any. The iteration stops when
+   * aborted.
+   * @param createIterable the function that creates the async iterable
+   */
+  public consume (createIterable: (signal: AbortSignal) => AsyncIterable<T>) {
+    const signal = this.restart()
+    const iterate = async () => {
+      for await (const value of createIterable(signal)) {
+        if (signal.aborted)
+          return release(value)
+        this.resolve(value)
+      }
+    }
+    iterate().catch((error) => void (signal.aborted || this.reject(error)))
+  }
+
+  /**
+   * Aborts the computation in progress, if any.
+   */
+  public abort (): void {
+    this.controller?.abort()
+    this.controller = undefined
+  }
+
+  /**
+   * Returns the error thrown by the last computation, if it failed.
+   * @returns the error or `undefined`
+   */
+  public getError (): unknown {
+    return this.error
+  }
+
+  private restart (): AbortSignal {
+    this.abort()
+    this.controller = new AbortController()
+    return this.controller.signal
+  }
+
+  private resolve (value: T) {
+    this.error = undefined
+    this.set(value)
+    // Setting the handle attached to it on behalf of the volatile
+    release(value)
+  }
+
+  private reject (error: unknown) {
+    this.error = error
+    this.unset()
+    this.signalErrorStateChange()
+  }
+}
+
+// Releases the reference on a resource handle produced by a computation.
+const release = (value: unknown) => {
+  if (isResourceHandle(value))
+    (value as ResourceHandle<unknown>).detach()
+}
+
+/**
+ * Hook that creates a volatile whose value is computed asynchronously from
+ * another volatile. The `compute` function receives an `AbortSignal` as its
+ * last argument, which is aborted when the source changes before the returned
+ * promise settles; only the latest result is kept.
+ * @template T the async volatile value type
+ * @template S the source volatile value type
+ * @param volatile the source volatile
+ * @param compute the function that computes the async volatile value
+ * @param deps an optional dependency array
+ */
+export function useAsyncVolatile<T, S> (
+  volatile: Volatile<S>,
+  compute: (source: S, signal: AbortSignal) => Promise<T>,
+  deps?: any[]
+): AsyncVolatile<T>
+/**
+ * Hook that creates a volatile whose value is computed asynchronously from
+ * several other volatiles. Those volatiles must be grouped together into a
+ * single array. The `compute` function receives an `AbortSignal` as its last
+ * argument.
+ * @template T the async volatile value type
+ * @template S the tuple of source volatile value types
+ * @param volatileArray the array of source volatiles
+ * @param compute the function that computes the async volatile value
+ * @param deps an optional dependency array
+ */
+export function useAsyncVolatile<T, S extends readonly unknown[]> (
+  volatileArray: SourceArray<S>,
+  compute: (...sources: [...S, AbortSignal]) => Promise<T>,
+  deps?: any[]
+): AsyncVolatile<T>
+
+export function useAsyncVolatile<T> (
+  volatileOrArray: any,
+  compute: (...a: any[]) => Promise<T>,
+  deps: any[] = []
+): AsyncVolatile<T> {
+  const computeDeps = useMemo(
+    () =>
+      Array.isArray(volatileOrArray)
+        ? volatileOrArray
+        : [volatileOrArray],
+    Array.isArray(volatileOrArray)
+      ? volatileOrArray
+      : [volatileOrArray]
+  )
+  const volatile = useMemo(
+    () => new AsyncVolatile<T>(),
+    [...computeDeps, ...deps]
+  )
+  const auxiliary = useDerivatedVolatile(volatileOrArray, (...a: any[]) => {
+    volatile.run((signal) => compute.apply(null, [...a, signal]))
+  }, deps)
+  volatile.setAuxiliary(auxiliary)
+  useEffect(() => () => {
+    volatile.abort()
+    volatile.unset()
+  }, [volatile])
+  return volatile
+}
+
+/**
+ * Hook that creates a volatile whose successive values are produced by an
+ * async iterable. The iterable is created on mount and whenever `deps` change;
+ * the previous iteration is then aborted.
+ * @template T the value type
+ * @param createIterable the function that creates the async iterable
+ * @param deps an optional dependency array
+ * @returns the async volatile
+ */
+export const useAsyncIterableVolatile = <T> (
+  createIterable: (signal: AbortSignal) => AsyncIterable<T>,
+  deps: any[] = []
+): AsyncVolatile<T> => {
+  const volatile = useMemo(() => new AsyncVolatile<T>(), deps)
+  useEffect(() => {
+    volatile.consume(createIterable)
+    return () => {
+      volatile.abort()
+      volatile.unset()
+    }
+  }, [volatile])
+  return volatile
+}
@@ -0,0 +1,133 @@
+/**
+ * A source of time for animations. The animation handler ticks the provided
+ * clocks once before each animation frame, and pauses them while the page is
+ * hidden (see `ClockProvider`). Times are expressed in milliseconds.
+ */
+export interface Clock {
+  /**
+   * Returns the current time.
+   * @returns the time, in milliseconds
+   */
+  now (): number
+  /**
+   * Called by the animation handler before each animation frame.
+   */
+  tick (): void
+  /**
+   * Pauses or resumes the clock; its time does not advance while paused.
+   * @param paused whether the clock is paused
+   */
+  setPaused (paused: boolean): void
+  /**
+   * Registers a function called when the time changes outside of the
+   * animation loop, e.g. when a manual clock is advanced.
+   * @param listener the function to call
+   * @returns a callback function to unregister the listener
+   */
+  subscribe? (listener: () => void): () => void
+}
+
+/**
+ * A clock which follows `performance.now()`, excluding the time elapsed while
+ * paused.
+ */
+export class RealClock implements Clock {
+  private offset: number
+  private pausedAt?: number
+
+  constructor () {
+    this.offset = 0
+    this.pausedAt = undefined
+  }
+
+  public now () {
+    return (this.pausedAt ?? performance.now()) - this.offset
+  }
+
+  public tick () { }
+
+  public setPaused (paused: boolean) {
+    if (paused && this.pausedAt === undefined)
+      this.pausedAt = performance.now()
+    else if (!paused && this.pausedAt !== undefined) {
+      this.offset += performance.now() - this.pausedAt
+      this.pausedAt = undefined
+    }
+  }
+}
+
+/**
+ * A clock which advances by a fixed step on each tick, regardless of the time
+ * actually elapsed, e.g. to render animations frame by frame.
+ */
+export class FixedStepClock implements Clock {
+  private readonly step: number
+  private time: number
+  private paused: boolean
+
+  /**
+   * Creates a fixed-step clock.
+   * @param step the duration of a tick, in milliseconds (default `1000 / 60`)
+   * @param time the initial time, in milliseconds (default `0`)
+   */
+  constructor (step = 1000 / 60, time = 0) {
+    this.step = step
+    this.time = time
+    this.paused = false
+  }
+
+  public now () {
+    return this.time
+  }
+
+  public tick () {
+    if (!this.paused)
+      this.time += this.step
+  }
+
+  public setPaused (paused: boolean) {
+    this.paused = paused
+  }
+}
+
+/**
+ * A clock which only advances when requested, e.g. to step animations
+ * deterministically in tests. Advancing the clock triggers an animation tick
+ * in the components it is provided to (see {@link ClockProvider}), even
+ * without a renderer.
+ */
+export class ManualClock implements Clock {
+  private time: number
+  private readonly listeners: Set<() => void>
+
+  /**
+   * Creates a manual clock.
+   * @param time the initial time, in milliseconds (default `0`)
+   */
+  constructor (time = 0) {
+    this.time = time
+    this.listeners = new Set()
+  }
+
+  public now () {
+    return this.time
+  }
+
+  /**
+   * Advances the clock and notifies its listeners.
+   * @param duration the duration to advance by, in milliseconds
+   */
+  public advance (duration: number) {
+    this.time += duration
+    this.listeners.forEach((listener) => listener())
+  }
+
+  public subscribe (listener: () => void) {
+    this.listeners.add(listener)
+    return () => void this.listeners.delete(listener)
+  }
+
+  public tick () { }
+
+  public setPaused (_: boolean) { }
+}
@@ -1,21 +1,57 @@
-import React, { createContext, forwardRef, useContext, useEffect, useMemo,
-  ReactNode, RefAttributes, ReactElement, ComponentType, RefObject,
+import React, { createContext, useContext, useEffect, useMemo,
+  ReactNode, Ref, ReactElement, ComponentType, RefObject,
   ComponentProps as ReactComponentProps, ComponentPropsWithRef, 
-  useRef, useCallback} from "react"
+  Suspense, useRef, useCallback, useLayoutEffect, MutableRefObject,
+  useReducer }
+  from "react"
 
-import { isVolatile, PotentialVolatile, useDerivatedVolatile, useVolatileReady,
-  Volatile } from "./Volatile"
-import { Position3ValueType, Positionable, Scale3ValueType, Scalable }
-  from "../primitives/ValueTypes"
+import { Color, ColorRepresentation, Euler, Material, Quaternion }
+  from "three"
+import { Instance } from "@react-three/fiber"
+
+import { get, isVolatile, PotentialVolatile, ResourceHandle, RootVolatile,
+  useDerivatedVolatile, useVolatileError, useVolatileReady, Volatile,
+  whenReady } from "./Volatile"
+import { Hideable, Orderable, Orientable, Position3ValueType, Positionable,
+  QuaternionValueType, Rotatable, Rotation3ValueType, Scale3ValueType,
+  Scalable, Translucent } from "../primitives/ValueTypes"
 import { Vector3ConstructorExtended } from "../primitives/Constructors"
-import { useForwardableRef } from "../utils/ForwardableRef"
 import { PartiallyOrderedSet } from "../utils/PartiallyOrderedSet"
+import { volatileProfiler } from "../utils/Profiler"
 
 
-type RegisterCallback = (volatile: Volatile<any>) => () => void
+/**
+ * Priority of a volatile in the resolution pass of a registry. Layout
+ * components resolve their volatiles with the `"normal"` priority: `"early"`
+ * volatiles are resolved before layout and `"late"` ones after it.
+ */
+export type ResolvePriority = "early" | "normal" | "late"
 
-const ComponentVolatileRegistryContext = createContext({
-  register: (_: Volatile<any>) => () => {}
+/**
+ * Options of a volatile registration.
+ */
+export interface ResolveOptions {
+  /** The resolution priority (default `"normal"`). */
+  priority?: ResolvePriority
+  /**
+   * Set this to true to only compute the volatile when it is read rather than
+   * on each resolution pass; its auxiliaries are still resolved.
+   */
+  lazy?: boolean
+  /**
+   * Function returning whether the registration is currently suspended (see
+   * {@link SuspendComponentVolatiles}).
+   */
+  suspended?: () => boolean
+}
+
+type RegisterCallback =
+  (volatile: Volatile<any>, options?: ResolveOptions) => () => void
+
+const ComponentVolatileRegistryContext = createContext<{
+  register: RegisterCallback
+}>({
+  register: () => () => {}
 })
 
 type ComponentVolatileRegistryProps = {
@@ -25,8 +61,9 @@ type ComponentVolatileRegistryProps = {
 
 /**
  * Exposes a volatile registry context to the children of this component.
- * `Resolve` component will call `register` to bind a volatile to the registry.
- * `register` must return a callback function to unregister the volatile.
+ * `Resolve` component will call `register` to bind a volatile to the registry,
+ * with optional registration options. `register` must return a callback
+ * function to unregister the volatile.
  * @param props.register the register function
  */
 export const ComponentVolatileRegistry = (
@@ -41,38 +78,204 @@ export const ComponentVolatileRegistry = (
 
 type ResolveProps = {
   volatile: Volatile<any>
+  priority?: ResolvePriority
+  lazy?: boolean
 }
 
 /**
  * Binds a volatile to the current registry, instructing the renderer to compute
  * its value before render.
  * @param props.volatile The volatile whose value should be computed
+ * @param props.priority The resolution priority (default `"normal"`)
+ * @param props.lazy Set this to true to only compute the volatile when read
  */
-export const Resolve = ({ volatile }: ResolveProps) => {
+export const Resolve = (
+  { volatile, priority = "normal", lazy = false }: ResolveProps
+) => {
   const { register } = useContext(ComponentVolatileRegistryContext)
   useEffect(() => {
-    const unregister = register(volatile)
+    const unregister = register(volatile, { priority, lazy })
     return () => unregister()
-  }, [volatile, register])
+  }, [volatile, priority, lazy, register])
   return <></>
 }
 
+type SuspendComponentVolatilesProps = {
+  suspended: PotentialVolatile<boolean>
+  children?: ReactNode
+}
+
+/**
+ * Suspends the resolution of the volatiles registered in the `children`
+ * subtree while `suspended` is true, e.g. for offscreen content. Components
+ * stay mounted and volatiles keep their state; they are resolved again once
+ * the subtree is resumed. A volatile also registered outside of a suspended
+ * subtree is still resolved.
+ * @param props.suspended whether the subtree is suspended
+ */
+export const SuspendComponentVolatiles = (
+  { suspended, children }: SuspendComponentVolatilesProps
+) => {
+  const { register } = useContext(ComponentVolatileRegistryContext)
+  const suspendedRef = useRef(suspended)
+  suspendedRef.current = suspended
+  const suspendedRegister = useCallback<RegisterCallback>(
+    (volatile, options = {}) => {
+      const isSuspended = () => {
+        const current = suspendedRef.current
+        if (!isVolatile(current))
+          return current as boolean
+        const volatileSuspended = current as Volatile<boolean>
+        return volatileSuspended.current() === true
+          && volatileSuspended.ready()
+      }
+      const { suspended: parentSuspended } = options
+      return register(volatile, {
+        ...options,
+        suspended: parentSuspended
+          ? () => isSuspended() || parentSuspended()
+          : isSuspended
+      })
+    },
+    [register]
+  )
+  return (
+    <ComponentVolatileRegistry register={suspendedRegister}>
+      {children}
+    </ComponentVolatileRegistry>
+  )
+}
+
+/**
+ * Hook that returns the resource held by a handle in a volatile, suspending
+ * the component until it is ready (see the other overloads).
+ * @template T the resource type
+ * @param volatile the volatile to read
+ * @returns the resource
+ */
+export function useVolatileValue <T> (volatile: Volatile<ResourceHandle<T>>): T
+
+/**
+ * Hook that returns the value of a volatile, suspending the component until
+ * it is ready (see the last overload).
+ * @template T the value type
+ * @param volatile the volatile to read
+ * @returns the value
+ */
+export function useVolatileValue <T> (volatile: Volatile<T>): T
+
+/**
+ * Hook that returns a static value, or the value of a volatile, suspending the
+ * component until it is ready (see the last overload).
+ * @template T the value type
+ * @param value the static value or volatile to read
+ * @returns the value
+ */
+export function useVolatileValue <T> (value: PotentialVolatile<T>): T
+
+/**
+ * Hook that returns the value of a volatile for use in React `Suspense`
+ * boundaries: while the volatile is not ready, the component suspends (see
+ * {@link whenReady}), and if the volatile fails, its error is thrown to the
+ * nearest error boundary. Once mounted, the volatile is resolved through the
+ * current registry and the component is rendered again each time its value
+ * changes. As the state and the effects of a suspended component are
+ * discarded, the volatile must be created, and resolved if needed, outside of
+ * the suspended subtree (see {@link Require}).
+ * @param value the static value or volatile to read
+ * @returns the value, or the resource if it is a resource handle
+ */
+export function useVolatileValue (value: any) {
+  const [, updateState] = useReducer((x: number) => x + 1, 0)
+  const { register } = useContext(ComponentVolatileRegistryContext)
+  const volatile: Volatile<any> | undefined =
+    isVolatile(value)? value: undefined
+  const renderedVersion = useRef<number | undefined>(undefined)
+  useEffect(() => {
+    if (!volatile)
+      return
+    const isStale = () =>
+      !volatile.ready() || volatile.getVersion() !== renderedVersion.current
+    // Only computed when the volatile changed, once resolved
+    const watcher = volatile.map(() => void (isStale() && updateState()))
+    const unregister = register(watcher)
+    const unsubscribe = volatile.subscribeReadyStateChange(
+      () => isStale() && updateState()
+    )
+    return () => {
+      unsubscribe()
+      unregister()
+      watcher.dispose()
+    }
+  }, [volatile, register])
+  if (!volatile)
+    return value
+  if (volatile.getError() !== undefined)
+    throw volatile.getError()
+  if (!volatile.ready())
+    throw whenReady(volatile)
+  const current = get(volatile)
+  renderedVersion.current = volatile.getVersion()
+  return current
+}
+
 interface RequireProps {
   volatile: Volatile<any>
+  fallback?: ReactNode
+  errorFallback?: ReactNode | ((error: unknown) => ReactNode)
+  suspend?: boolean
   children?: ReactNode
 }
 
+// Suspends until the volatile is ready, see `useVolatileValue`
+const SuspendUntilReady = (
+  { volatile, children }: { volatile: Volatile<any>, children?: ReactNode }
+) => {
+  useVolatileValue(volatile)
+  return <>{children}</>
+}
+
 /**
  * Blocks a part of the component tree until a volatile is ready.
  * @param props.volatile The volatile which will be awaited
+ * @param props.fallback An optional tree rendered while the volatile is not
+ * ready
+ * @param props.errorFallback An optional tree, or a function of the error
+ * returning one, rendered instead of `fallback` when the volatile failed
+ * @param props.suspend Set this to true to suspend the children until the
+ * volatile is ready, in a local `Suspense` boundary which renders `fallback`
+ * meanwhile; the volatile is resolved outside of this boundary. Errors are
+ * then thrown to the nearest error boundary and `errorFallback` is ignored.
  * @param props.children The child component tree which has a dependency on it
  */
-export const Require = ({ volatile, children }: RequireProps) => (
-  <>
-    <Resolve volatile={volatile} />
-    {useVolatileReady(volatile)? <>{children}</>: <></>}
-  </>
-)
+export const Require = (
+  { volatile, fallback, errorFallback, suspend = false, children }: RequireProps
+) => {
+  const ready = useVolatileReady(volatile)
+  const error = useVolatileError(volatile)
+  if (suspend)
+    return (
+      <>
+        <Resolve volatile={volatile} />
+        <Suspense fallback={fallback ?? null}>
+          <SuspendUntilReady volatile={volatile}>{children}</SuspendUntilReady>
+        </Suspense>
+      </>
+    )
+  const renderFallback = () => {
+    if (error === undefined || errorFallback === undefined)
+      return fallback
+    return typeof errorFallback === "function"
+      ? errorFallback(error)
+      : errorFallback
+  }
+  return (
+    <>
+      <Resolve volatile={volatile} />
+      {ready? <>{children}</>: <>{renderFallback()}</>}
+    </>
+  )
+}
 
 type ExtractRefValueType<T> = T extends RefObject<infer V>? V: never
 
@@ -96,55 +299,270 @@ type VolatileAttributeComponentProps<S, C extends ComponentType<any>, R> = {
   >
 } & Omit<ReactComponentProps<C>, keyof NoInfer<R>>
 
-// Props type allowing bypass of type checks
-type VolatileAttributeComponentAnyProps = {
-  Class: any,
-  volatile: any,
-  computeVolatile: (value: any, instance?: any) => any
-}
-
-// Actual implementation of a `VolatileAttributeComponent`, only mounted when
-// the associated volatile is ready. It's not clear whether there's any gain
-// from attempting to "type" this function; we need to type assert anyway due
-// to the use of forwardRef + the many issues that arise from having generics
-// and Omit constructs that the compiler does not understand well, as is the
-// case for the components that follow.
-const ReadyVolatileAttributeComponent =
-  forwardRef<unknown, VolatileAttributeComponentAnyProps>(
-    <S, C extends ComponentType<any>, R> (
-      props: VolatileAttributeComponentProps<S, C, R>,
-      ref: ComponentPropsWithRef<C>["ref"]
-    ) => {
-      type RefValueType = ExtractRefValueType<ComponentPropsWithRef<C>["ref"]>
-      const { Class, volatile, computeVolatile, ...otherProps } = props
-      const [childRef, assignRef] = useForwardableRef<RefValueType>(ref)
-      const initialValues = useMemo(
-        () => computeVolatile(volatile.current() as S),
-        // ^ This component is never mounted before the volatile is ready
-        [volatile]
+// Describes how a volatile attribute component class handles its attribute, so
+// that several attributes can be handled by a single component.
+type VolatileAttribute = {
+  attribute: string
+  defaultValue: unknown
+  computeVolatile: (value: any, instance?: any) => object | undefined
+  forwardStatic: boolean
+  release?: (instance: any) => void
+}
+
+// Represents a component involved in the generic component volatile binding
+// chain: an "instance" of a class created through `VolatileComponentFactory`.
+type IntermediateComponentTypeProps<C extends ComponentType<any>> = {
+  Class: C
+} & ReactComponentProps<C>
+
+type IntermediateComponentType = ComponentType<
+  IntermediateComponentTypeProps<ComponentType<any>>
+>
+
+/**
+ * Represents a volatile attribute component class, as returned by
+ * {@link VolatileAttributeComponentFactory}.
+ */
+export type VolatileAttributeComponentType =
+  IntermediateComponentType & { volatileAttribute: VolatileAttribute }
+
+type VolatileAttributeBinding = {
+  attribute: VolatileAttribute
+  volatile: Volatile<any>
+}
+
+type StaticAttributeBinding = {
+  attribute: VolatileAttribute
+  value: unknown
+}
+
+type VolatileAttributesComponentProps = {
+  Class: ComponentType<any>
+  bindings: VolatileAttributeBinding[]
+  staticBindings: StaticAttributeBinding[]
+  childProps: { ref?: Ref<unknown>, [key: string]: unknown }
+}
+
+const applyAttribute = (
+  attribute: VolatileAttribute,
+  value: unknown,
+  instance: unknown
+) => {
+  const computedValues = attribute.computeVolatile(value, instance)
+  if (computedValues)
+    Object.assign(instance as object, computedValues)
+}
+
+const assignRefValue = (ref: Ref<unknown> | undefined, value: unknown) => {
+  if (typeof ref === "function")
+    ref(value)
+  else if (ref)
+    (ref as MutableRefObject<unknown>).current = value
+}
+
+// Returns a ref to the instance of the underlying component along with the ref
+// callback to supply to it, which releases the attributes from the previous
+// instance, if any, and applies the static attributes to the new one. The
+// callback is stable so that the instance is not released when the parent ref
+// or the static values change; changed static values are applied in place.
+const useAttributesInstance = (
+  ref: Ref<unknown> | undefined,
+  bindings: Array<VolatileAttributeBinding | StaticAttributeBinding>,
+  staticBindings: StaticAttributeBinding[]
+) => {
+  const childRef = useRef<unknown>(null)
+  const latest = useRef({ ref, bindings, staticBindings })
+  latest.current = { ref, bindings, staticBindings }
+  const assignedRef = useRef(ref)
+  const appliedStaticBindings = useRef(staticBindings)
+  const assignInstance = useCallback((instance: unknown) => {
+    const { ref, bindings, staticBindings } = latest.current
+    const previousInstance = childRef.current
+    if (previousInstance)
+      bindings.forEach(({ attribute }) => attribute.release?.(previousInstance))
+    childRef.current = instance
+    assignRefValue(ref, instance)
+    assignedRef.current = ref
+    if (instance)
+      staticBindings.forEach(
+        ({ attribute, value }) => applyAttribute(attribute, value, instance)
+      )
+    appliedStaticBindings.current = staticBindings
+  }, [])
+  useLayoutEffect(() => {
+    const instance = childRef.current
+    const previousBindings = appliedStaticBindings.current
+    if (!instance || previousBindings === staticBindings)
+      return
+    appliedStaticBindings.current = staticBindings
+    previousBindings
+      .filter(({ attribute }) => !staticBindings.some(
+        (binding) => binding.attribute === attribute
+      ))
+      .forEach(({ attribute }) => attribute.release?.(instance))
+    staticBindings.forEach(
+      ({ attribute, value }) => applyAttribute(attribute, value, instance)
+    )
+  }, [staticBindings])
+  useLayoutEffect(() => {
+    if (assignedRef.current === ref)
+      return
+    assignRefValue(assignedRef.current, null)
+    assignRefValue(ref, childRef.current)
+    assignedRef.current = ref
+  }, [ref])
+  return [childRef, assignInstance] as const
+}
+
+// Applies the static attributes which are not forwarded as properties to the
+// instance of the underlying component.
+const StaticAttributesComponent = (
+  {
+    Class,
+    staticBindings,
+    childProps: { ref, ...childProps }
+  }: Omit<VolatileAttributesComponentProps, "bindings">
+) => {
+  const [, assignInstance] =
+    useAttributesInstance(ref, staticBindings, staticBindings)
+  return <Class ref={assignInstance} {...childProps} />
+}
+
+// Mounts the underlying component once all the attribute volatiles are ready,
+// then updates its instance from a single derivated volatile. Only the
+// attributes whose volatile changed since the last update are recomputed.
+const ReadyVolatileAttributesComponent = (
+  {
+    Class,
+    bindings,
+    staticBindings,
+    childProps: { ref, ...childProps },
+    sources
+  }: VolatileAttributesComponentProps & { sources: Volatile<unknown> }
+) => {
+  const allBindings = useMemo(
+    () => [...bindings, ...staticBindings],
+    [bindings, staticBindings]
+  )
+  const [childRef, assignRef] =
+    useAttributesInstance(ref, allBindings, staticBindings)
+  const initialValues = useMemo(
+    () => Object.assign({}, ...bindings.map(
+      ({ attribute, volatile }) =>
+        attribute.computeVolatile(volatile.current())
+    )),
+    // ^ This component is never mounted before the volatiles are ready
+    [sources]
+  )
+  const appliedVersions = useMemo(
+    () => bindings.map((): number | undefined => undefined),
+    [sources]
+  )
+  // The instance may be assigned after the first update, e.g. when the
+  // underlying component waits for a volatile of its own: all the attributes
+  // are then applied to the new instance
+  const instanceSignal = useMemo(() => new RootVolatile(1), [])
+  const assignInstance = useCallback((instance: unknown) => {
+    assignRef(instance)
+    appliedVersions.fill(undefined)
+    instanceSignal.set(1)
+  }, [assignRef, appliedVersions, instanceSignal])
+  const symbol = useDerivatedVolatile([sources, instanceSignal], (_, __) => {
+    const instance = childRef.current
+    if (!instance || !sources.ready())
+      return
+    bindings.forEach(({ attribute, volatile }, i) => {
+      if (appliedVersions[i] === volatile.getVersion())
+        return
+      appliedVersions[i] = volatile.getVersion()
+      applyAttribute(attribute, volatile.current(), instance)
+    })
+  }, [sources, bindings, appliedVersions])
+  return (
+    <>
+      <Class ref={assignInstance} {...initialValues} {...childProps} />
+      <Resolve volatile={symbol} />
+    </>
+  )
+}
+
+// Waits for the attribute volatiles to be ready. Mounted with a key identifying
+// the set of volatile attributes, so that the number of sources is constant.
+const VolatileAttributesComponent = (
+  props: VolatileAttributesComponentProps
+) => {
+  const volatiles = props.bindings.map(({ volatile }) => volatile)
+  const sources = useMemo(() => Volatile.merge(...volatiles), volatiles)
+  useEffect(() => {
+    sources.ensureInitialized()
+    return () => sources.dispose()
+  }, [sources])
+  const ready = useVolatileReady(sources)
+  if (!ready)
+    return <></>
+  return <ReadyVolatileAttributesComponent {...props} sources={sources} />
+}
+
+// Creates a component which handles the specified volatile attributes: static
+// values are forwarded or applied to the instance, and volatile ones are bound
+// by a single `VolatileAttributesComponent`.
+const createAttributesComponent = (attributes: readonly VolatileAttribute[]) =>
+  ({ Class, ...props }: IntermediateComponentTypeProps<ComponentType<any>>) => {
+    const childProps: VolatileAttributesComponentProps["childProps"] =
+      { ...props }
+    const values = attributes.map(({ attribute, defaultValue }) => {
+      const value = childProps[attribute] ?? defaultValue
+      delete childProps[attribute]
+      return value
+    })
+    const bindings = useMemo(
+      () => values.flatMap((value, i) => isVolatile(value)
+        ? [{ attribute: attributes[i], volatile: value as Volatile<any> }]
+        : []
+      ),
+      values
+    )
+    // Static values which are not forwarded are applied to the instance
+    const staticBindings = useMemo(
+      () => values.flatMap((value, i) =>
+        attributes[i].forwardStatic
+          || value === undefined
+          || isVolatile(value)
+          ? []
+          : [{ attribute: attributes[i], value }]
+      ),
+      values
+    )
+    values.forEach((value, i) => {
+      if (
+        attributes[i].forwardStatic
+          && value !== undefined
+          && !isVolatile(value)
       )
-      const symbol = useDerivatedVolatile(volatile, (value) => {
-        if (!childRef.current || !volatile.ready())
-          return
-        const computedValues = computeVolatile(value, childRef.current)
-        if (computedValues)
-          Object.assign(childRef.current, computedValues)
-      }, [volatile, computeVolatile])
-      const childProps = {
-        ref: assignRef,
-        ...initialValues,
-        ...otherProps
-      } as ComponentPropsWithRef<C>
+        childProps[attributes[i].attribute] = value
+    })
+    if (!bindings.length && !staticBindings.length)
+      return <Class {...childProps} />
+    if (!bindings.length)
       return (
-        <>
-          <Class {...childProps} />
-          <Resolve volatile={symbol} />
-        </>
+        <StaticAttributesComponent
+          Class={Class}
+          staticBindings={staticBindings}
+          childProps={childProps}
+          />
       )
-    }
-  ) as <S, C extends ComponentType<any>, R> (
-    props: VolatileAttributeComponentProps<S, C, R> & RefAttributes<any>
-  ) => ReactElement
+    return (
+      <VolatileAttributesComponent
+        key={bindings.map(({ attribute }) => attribute.attribute).join()}
+        Class={Class}
+        bindings={bindings}
+        staticBindings={staticBindings}
+        childProps={childProps}
+        />
+    )
+  }
+
+const noStaticBindings: StaticAttributeBinding[] = []
 
 /**
  * Returns a component in which one or several properties are computed from
@@ -167,62 +585,26 @@ const ReadyVolatileAttributeComponent =
 export const VolatileAttributeComponent = (
   <S, C extends ComponentType<any>, R> (
     props: VolatileAttributeComponentProps<S, C, R>
-  ) => (
-    <Require volatile={props.volatile}>
-      <ReadyVolatileAttributeComponent<S, C, R> {...props} />
-    </Require>
-  )
-)
-
-/**
- * Same as `VolatileAttributeComponentProps` with an added a string type that
- * represents the volatile attribute.
- * @template S the source volatile value type
- * @template C the Class component type
- * @template A the attribute string type
- * @template R the compute function return type
- */
-type OptionalVolatileAttributeComponentProps<
-  S,
-  C extends ComponentType<any>,
-  A extends string,
-  R
-> = {
-  Class: C
-  volatile: PotentialVolatile<S>
-  volatileAttribute: A
-  computeVolatile: ComputeVolatileCallback<
-    NoInfer<S>,
-    ExtractRefValueType<ComponentPropsWithRef<C>["ref"]>,
-    R
-  >
-} & Omit<ReactComponentProps<C>, A>
-
-// Instantiates a `VolatileAttributeComponent` if the passed property is a
-// volatile; instantiantes the `Class` component otherwise.
-const OptionalVolatileAttributeComponent = (
-  <S, C extends ComponentType<any>, A extends string, R> (
-    props: OptionalVolatileAttributeComponentProps<S, C, A, R>
   ) => {
-    const {
-      Class,
-      volatile,
-      volatileAttribute,
-      computeVolatile,
-      ...otherProps
-    } = props
-    if (!volatile || !isVolatile(volatile)) {
-      const childProps = { ...otherProps, [volatileAttribute]: volatile }
-      return <Class {...childProps as ReactComponentProps<C>} />
-    }
-    const volatileProps = {
-      Class,
-      volatile,
-      computeVolatile,
-      // TODO: check whether there's a way to avoid this ugly cast
-      ...otherProps as unknown as Omit<ReactComponentProps<C>, keyof R>
-    } as VolatileAttributeComponentProps<S, C, R>
-    return <VolatileAttributeComponent<S, C, R> {...volatileProps} />
+    const { Class, volatile, computeVolatile, ...childProps } = props
+    const bindings = useMemo(() => {
+      const attribute: VolatileAttribute = {
+        attribute: "",
+        defaultValue: undefined,
+        computeVolatile:
+          computeVolatile as VolatileAttribute["computeVolatile"],
+        forwardStatic: true
+      }
+      return [{ attribute, volatile }]
+    }, [volatile, computeVolatile])
+    return (
+      <VolatileAttributesComponent
+        Class={Class}
+        bindings={bindings}
+        staticBindings={noStaticBindings}
+        childProps={childProps}
+        />
+    )
   }
 )
 
@@ -231,36 +613,47 @@ type ReplacedAttributeProps<S, A extends string, P> =
 
 type TypeHolder<S, A extends string, C> = C & { __type_info__?: [S, A] }
 
-// Creates a component class for the specified attribute, default value and
-// compute function.
-const VolatileAttributeComponentFactory = (
+/**
+ * Creates a volatile attribute component class for the specified attribute,
+ * default value and compute function, which can then be used to build a
+ * `Component` variant (see {@link ComponentFactory}). The compute function
+ * works as described in {@link VolatileAttributeComponent}.
+ *
+ * Without default value, the attribute is not forwarded when unspecified.
+ * Static values are forwarded as is to the underlying component, unless
+ * `forwardStatic` is false: they are then applied to the instance once
+ * mounted, e.g. for attributes that do not map to a property of the component.
+ * @template S the attribute value type
+ * @template I the underlying component instance type
+ * @template A the attribute string type
+ * @param attribute the attribute name
+ * @param defaultValue the value used when the attribute is unspecified
+ * @param computeVolatile the compute function
+ * @param forwardStatic whether static values are forwarded (default `true`)
+ * @param release an optional function which reverts the changes made to an
+ * instance, called when the instance is replaced or unmounted
+ * @returns the volatile attribute component class
+ */
+export const VolatileAttributeComponentFactory = (
   <S, I, A extends string> (
     attribute: A,
-    defaultValue: S,
-    computeVolatile: (value: S, instance?: I) => { [K in A]: S } | undefined
+    defaultValue: S | undefined,
+    computeVolatile: (value: S, instance?: I) => { [K in A]: S } | undefined,
+    forwardStatic = true,
+    release?: (instance: I) => void
   ) => {
     type InputProps <C extends ComponentType<any>> = {
       Class: C
     } & ReplacedAttributeProps<S, A, ReactComponentProps<C>>
-    type ForwardedProps <C extends ComponentType<any>> =
-      OptionalVolatileAttributeComponentProps<
-        S, C, A, { [K in A]: S }
-      >
-    return <C extends ComponentType<any>> (
-      { Class, [attribute]: volatileOrValue, ...props }:
-        // Saves types S and A for later inference in `ExtractReplacedAttribute`
-        TypeHolder<S, A, InputProps<C>>
-    ) => (
-      <OptionalVolatileAttributeComponent
-        {...{
-          Class,
-          volatileAttribute: attribute,
-          volatile: volatileOrValue ?? defaultValue,
-          computeVolatile,
-          ...props
-        } as ForwardedProps<C>}
-        />
-    )
+    const volatileAttribute: VolatileAttribute =
+      { attribute, defaultValue, computeVolatile, forwardStatic, release }
+    // The class is also a `Component` variant handling this attribute only
+    const AttributeComponent = createAttributesComponent([volatileAttribute]) as
+      // Saves types S and A for later inference in `ExtractReplacedAttribute`
+      <C extends ComponentType<any>> (
+        props: TypeHolder<S, A, InputProps<C>>
+      ) => ReactElement
+    return Object.assign(AttributeComponent, { volatileAttribute })
   }
 )
 
@@ -302,10 +695,214 @@ export const VolatileScaleComponent = VolatileAttributeComponentFactory(
   }
 )
 
-// The volatile property handlers which should come with each `Component`.
-const injectedClasses = [
+/**
+ * Returns a component whose `rotation` attribute can be volatile or static.
+ * If static, the property is simply forwarded to the underlying component.
+ * If volatile, a `rotation` property is injected whenever the volatile is
+ * ready then directly updated via `rotation.copy`. If not specified, the
+ * property is not forwarded.
+ * @param props.Class the component that will receive the rotation property
+ * @param props.rotation the object's rotation (optional)
+ */
+export const VolatileRotationComponent = VolatileAttributeComponentFactory(
+  "rotation",
+  undefined,
+  (rotation: Rotation3ValueType, instance?: Rotatable) => {
+    if (!instance)
+      return { rotation }
+    if (rotation instanceof Euler)
+      instance.rotation.copy(rotation)
+    else
+      instance.rotation.fromArray(
+        [...rotation] as Parameters<Euler["fromArray"]>[0]
+      )
+  }
+)
+
+/**
+ * Returns a component whose `quaternion` attribute can be volatile or static.
+ * If static, the property is simply forwarded to the underlying component.
+ * If volatile, a `quaternion` property is injected whenever the volatile is
+ * ready then directly updated via `quaternion.copy`. If not specified, the
+ * property is not forwarded.
+ * @param props.Class the component that will receive the quaternion property
+ * @param props.quaternion the object's quaternion (optional)
+ */
+export const VolatileQuaternionComponent = VolatileAttributeComponentFactory(
+  "quaternion",
+  undefined,
+  (quaternion: QuaternionValueType, instance?: Orientable) => {
+    if (!instance)
+      return { quaternion }
+    if (quaternion instanceof Quaternion)
+      instance.quaternion.copy(quaternion)
+    else
+      instance.quaternion.fromArray(quaternion)
+  }
+)
+
+/**
+ * Returns a component whose `visible` attribute can be volatile or static.
+ * If static, the property is simply forwarded to the underlying component.
+ * If volatile, a `visible` property is injected whenever the volatile is ready
+ * then directly updated. If not specified, the property is not forwarded.
+ * @param props.Class the component that will receive the visible property
+ * @param props.visible whether the object is visible (optional)
+ */
+export const VolatileVisibleComponent = VolatileAttributeComponentFactory(
+  "visible",
+  undefined,
+  (visible: boolean, instance?: Hideable) => {
+    if (!instance)
+      return { visible }
+    instance.visible = visible
+  }
+)
+
+/**
+ * Returns a component whose `renderOrder` attribute can be volatile or static.
+ * If static, the property is simply forwarded to the underlying component.
+ * If volatile, a `renderOrder` property is injected whenever the volatile is
+ * ready then directly updated. If not specified, the property is not
+ * forwarded.
+ * @param props.Class the component that will receive the renderOrder property
+ * @param props.renderOrder the object's render order (optional)
+ */
+export const VolatileRenderOrderComponent = VolatileAttributeComponentFactory(
+  "renderOrder",
+  undefined,
+  (renderOrder: number, instance?: Orderable) => {
+    if (!instance)
+      return { renderOrder }
+    instance.renderOrder = renderOrder
+  }
+)
+
+// Original transparency of the materials whose opacity is set, restored once
+// the opacity goes back to `1`
+const materialTransparencies = new WeakMap<Material, boolean>()
+
+type ClonedMaterials = {
+  original: Material | Material[]
+  clone: Material | Material[]
+}
+
+const clonedMaterials = new WeakMap<Translucent, ClonedMaterials>()
+
+const toMaterialArray = (material: Material | Material[]) =>
+  Array.isArray(material)? material: [material]
+
+// A material declared as a child of the object in the React tree belongs to
+// it; other materials may be shared with other objects
+const isOwnMaterial = (material: Material, instance: Translucent) =>
+  (material as Instance<Material>["object"]).__r3f?.parent?.object === instance
+
+// Returns the materials of the object, which are first replaced with clones if
+// they do not belong to it, so that other objects are not affected
+const getOwnMaterials = (instance: Translucent): Material[] => {
+  const { material } = instance
+  if (!material)
+    return []
+  const materials = toMaterialArray(material)
+  if (
+    clonedMaterials.get(instance)?.clone === material
+      || materials.every((material) => isOwnMaterial(material, instance))
+  )
+    return materials
+  const clones = materials.map(
+    (material) =>
+      isOwnMaterial(material, instance)? material: material.clone()
+  )
+  instance.material = Array.isArray(material)? clones: clones[0]
+  clonedMaterials.set(
+    instance,
+    { original: material, clone: instance.material }
+  )
+  return clones
+}
+
+// Restores the original materials of the object and disposes of their clones
+const releaseOwnMaterials = (instance: Translucent) => {
+  const cloned = clonedMaterials.get(instance)
+  if (!cloned)
+    return
+  clonedMaterials.delete(instance)
+  const originals = toMaterialArray(cloned.original)
+  toMaterialArray(cloned.clone).forEach(
+    (material) => originals.includes(material) || material.dispose()
+  )
+  if (instance.material === cloned.clone)
+    instance.material = cloned.original
+}
+
+/**
+ * Returns a component whose `opacity` attribute can be volatile or static.
+ * The opacity is applied to the material(s) of the underlying object, if any,
+ * once mounted; materials become transparent when the opacity is lower than
+ * `1`, and recover their transparency otherwise. Materials which are not
+ * declared as children of the object, and may thus be shared, are replaced
+ * with clones until unmounted. If not specified, materials are left untouched.
+ * @param props.Class the component whose material opacity will be set
+ * @param props.opacity the object's material opacity (optional)
+ */
+export const VolatileOpacityComponent = VolatileAttributeComponentFactory(
+  "opacity",
+  undefined,
+  (opacity: number, instance?: Translucent) => {
+    if (!instance)
+      return undefined
+    for (const material of getOwnMaterials(instance)) {
+      if (!materialTransparencies.has(material))
+        materialTransparencies.set(material, material.transparent)
+      const transparent = opacity < 1 || materialTransparencies.get(material)!
+      material.opacity = opacity
+      if (material.transparent !== transparent) {
+        material.transparent = transparent
+        material.needsUpdate = true
+      }
+    }
+  },
+  false,
+  releaseOwnMaterials
+)
+
+/**
+ * Returns a component whose `color` attribute can be volatile or static. The
+ * color is applied to the material(s) of the underlying object which have a
+ * `color` (e.g. `MeshBasicMaterial` or `BasicShaderMaterial`), once mounted.
+ * Shared materials are cloned as described in {@link VolatileOpacityComponent}.
+ * If not specified, materials are left untouched.
+ * @param props.Class the component whose material color will be set
+ * @param props.color the object's material color (optional)
+ */
+export const VolatileColorComponent = VolatileAttributeComponentFactory(
+  "color",
+  undefined,
+  (color: ColorRepresentation, instance?: Translucent) => {
+    if (!instance)
+      return undefined
+    for (const material of getOwnMaterials(instance)) {
+      const { color: materialColor } = material as { color?: unknown }
+      if (materialColor instanceof Color)
+        materialColor.set(color)
+    }
+  },
+  false,
+  releaseOwnMaterials
+)
+
+/**
+ * The volatile attribute component classes which come with each `Component`.
+ */
+export const defaultVolatileAttributeClasses = [
   VolatilePositionComponent,
-  VolatileScaleComponent
+  VolatileScaleComponent,
+  VolatileRotationComponent,
+  VolatileQuaternionComponent,
+  VolatileVisibleComponent,
+  VolatileRenderOrderComponent,
+  VolatileOpacityComponent,
+  VolatileColorComponent
 ] as const
 
 type ExtractReplacedAttribute<T, C> =
@@ -321,73 +918,44 @@ type ExtractReplacedAttribute<T, C> =
  * Computes the type of the properties expected by `Component`, without the
  * `Class` property, given an underlying component.
  * @template C the component used in `Component`
+ * @template M the tuple of volatile attribute component classes (defaults to
+ * {@link defaultVolatileAttributeClasses})
  */
 export type OuterComponentProps<
   C extends ComponentType<any>,
-  M = [...typeof injectedClasses]
+  M = [...typeof defaultVolatileAttributeClasses]
 > = M extends [infer I, ...infer R]
   ? ExtractReplacedAttribute<I, OuterComponentProps<C, R>>
   : ReactComponentProps<C>
 
-// Represents a component involved in the generic component volatile binding
-// chain: an "instance" of a class created through `VolatileComponentFactory`.
-type IntermediateComponentTypeProps<C extends ComponentType<any>> = {
-  Class: C
-} & ReactComponentProps<C>
-
-type IntermediateComponentType = ComponentType<
-  IntermediateComponentTypeProps<ComponentType<any>>
->
 
-type MultipleVolatileAttributesComponentProps<
-  D extends readonly IntermediateComponentType[],
-  C extends ComponentType<any>
+type ComponentProps<
+  C extends ComponentType<any>,
+  M = [...typeof defaultVolatileAttributeClasses]
 > = {
-  IntermediateClasses: D
-  UserClass: C
-} & OuterComponentProps<C>
-
-const MultipleVolatileAttributesComponent = (
-  <
-    D extends readonly IntermediateComponentType[],
-    C extends ComponentType<any>
-  > (
-    props: MultipleVolatileAttributesComponentProps<D, C>
-  ) => {
-    type Next<D> = D extends [infer _, ...infer R]? R: never
-    const { IntermediateClasses, UserClass, ...otherProps } = props
-    const [ CurrentIntermediateClass, ...NextClasses] = IntermediateClasses
-    const NextComponent = useMemo(
-      () => (
-        nextProps: MultipleVolatileAttributesComponentProps<Next<D>, C>
-      ) => (
-        <MultipleVolatileAttributesComponent<Next<D>, C>
-          IntermediateClasses={NextClasses}
-          UserClass={UserClass}
-          {...nextProps as OuterComponentProps<C, Next<D>>}
-          />
-      ),
-      [...NextClasses, UserClass]
-    )
-    if (!NextClasses.length)
-      return (
-        <CurrentIntermediateClass
-          Class={UserClass}
-          {...otherProps as ReactComponentProps<C>}
-          />
-      )
-    return (
-      <CurrentIntermediateClass
-        Class={NextComponent}
-        {...otherProps as OuterComponentProps<C, Next<D>>}
-        />
-    )
-  }
-)
-
-type ComponentProps<C extends ComponentType<any>> = {
   Class: C
-} & OuterComponentProps<C>
+} & OuterComponentProps<C, M>
+
+/**
+ * Returns a `Component` variant which handles the specified volatile
+ * attributes, e.g. the default ones along with custom ones created with
+ * {@link VolatileAttributeComponentFactory}. Use {@link OuterComponentProps}
+ * with the same tuple to type the properties of components built on top of it.
+ * All the volatile attributes of an instance are handled by a single component
+ * which is mounted once they are all ready, and updated by a single resolved
+ * volatile.
+ * @template M the tuple of volatile attribute component classes
+ * @param attributeClasses the volatile attribute component classes
+ * @returns the component
+ */
+export const ComponentFactory = (
+  <M extends readonly VolatileAttributeComponentType[]> (attributeClasses: M) =>
+    createAttributesComponent(
+      attributeClasses.map(({ volatileAttribute }) => volatileAttribute)
+    ) as <C extends ComponentType<any>> (
+      props: ComponentProps<C, [...M]>
+    ) => ReactElement
+)
 
 /**
  * Returns a generic component which can be attributed spatial properties.
@@ -398,6 +966,12 @@ type ComponentProps<C extends ComponentType<any>> = {
  * Available properties:
  *  - `position` (see {@link VolatilePositionComponent})
  *  - `scale` (see {@link VolatileScaleComponent})
+ *  - `rotation` (see {@link VolatileRotationComponent})
+ *  - `quaternion` (see {@link VolatileQuaternionComponent})
+ *  - `visible` (see {@link VolatileVisibleComponent})
+ *  - `renderOrder` (see {@link VolatileRenderOrderComponent})
+ *  - `opacity` (see {@link VolatileOpacityComponent})
+ *  - `color` (see {@link VolatileColorComponent})
  * 
  * This component is essentially a wrapper that encapsulates all properties that
  * are related to the placement of an object in space. When a property is not
@@ -407,75 +981,181 @@ type ComponentProps<C extends ComponentType<any>> = {
  * @param props.Class the component that will receive the properties
  * @param props.position the object's position (optional)
  * @param props.scale the object's scale (optional)
+ * @param props.rotation the object's rotation (optional)
+ * @param props.quaternion the object's quaternion (optional)
+ * @param props.visible whether the object is visible (optional)
+ * @param props.renderOrder the object's render order (optional)
+ * @param props.opacity the object's material opacity (optional)
+ * @param props.color the object's material color (optional)
  */
-export const Component = (
-  <C extends ComponentType<any>> ({ Class, ...props }: ComponentProps<C>) => {
-    return (
-      <MultipleVolatileAttributesComponent<typeof injectedClasses, C>
-        IntermediateClasses={injectedClasses}
-        UserClass={Class}
-        {...props as OuterComponentProps<C>}
-        />
-    )
-  }
+export const Component = ComponentFactory(defaultVolatileAttributeClasses)
+
+const priorityRanks: { [P in ResolvePriority]: number } = {
+  early: 0,
+  normal: 1,
+  late: 2
+}
+
+type Registration = {
+  rank: number
+  lazy: boolean
+  suspended?: () => boolean
+  auxiliary?: Registration
+}
+
+// Volatiles are kept in one ordered set per rank, so that priorities do not
+// add relationships between unrelated volatiles. An auxiliary never has a
+// higher rank than the volatiles it belongs to (its owners), hence only the
+// relationships within a rank need to be maintained.
+type RegistryState = {
+  buckets: Array<PartiallyOrderedSet<Volatile<any>>>
+  ranks: Map<Volatile<any>, number>
+  registrations: Map<Volatile<any>, Registration[]>
+  owners: Map<Volatile<any>, Set<Volatile<any>>>
+}
+
+const createRegistryState = (): RegistryState => ({
+  buckets: Object.values(priorityRanks).map(() => new PartiallyOrderedSet()),
+  ranks: new Map(),
+  registrations: new Map(),
+  owners: new Map()
+})
+
+// Auxiliaries cannot be computed by reading the volatile they belong to, hence
+// they are resolved eagerly even when the volatile is lazy.
+const getAuxiliaryRegistration = (registration: Registration) => {
+  if (!registration.lazy)
+    return registration
+  registration.auxiliary ??= { ...registration, lazy: false }
+  return registration.auxiliary
+}
+
+// A volatile registered several times gets the highest of its priorities
+// (which its auxiliaries share, preserving their order) and is resolved unless
+// all of its registrations are lazy or suspended.
+const getRank = (registrations: Registration[]) =>
+  Math.min(...registrations.map(({ rank }) => rank))
+
+const isResolved = (registrations: Registration[]) => registrations.some(
+  ({ lazy, suspended }) => !lazy && !suspended?.()
 )
 
-const registerVolatile = (
-  registry: PartiallyOrderedSet<Volatile<any>>,
-  counters: Map<Volatile<any>, number>,
+const orderAuxiliary = (
+  { buckets, ranks }: RegistryState,
+  auxiliary: Volatile<any>,
   volatile: Volatile<any>
 ) => {
-  registry.add(volatile)
-  counters.set(volatile, (counters.get(volatile) ?? 0) + 1)
+  const rank = ranks.get(volatile)
+  if (rank !== undefined && ranks.get(auxiliary) === rank)
+    buckets[rank].order(auxiliary, volatile)
+}
+
+// Moves the volatile to the bucket of its new rank, where its relationships
+// with its auxiliaries and owners of the same rank are restored.
+const updateRank = (
+  state: RegistryState,
+  volatile: Volatile<any>,
+  rank: number
+) => {
+  const { buckets, ranks, owners } = state
+  const previousRank = ranks.get(volatile)
+  if (previousRank === rank)
+    return
+  if (previousRank !== undefined)
+    buckets[previousRank].delete(volatile)
+  ranks.set(volatile, rank)
+  buckets[rank].add(volatile)
+  volatile.getAuxiliaries().forEach(
+    (auxiliary) => orderAuxiliary(state, auxiliary, volatile)
+  )
+  owners.get(volatile)?.forEach(
+    (owner) => orderAuxiliary(state, volatile, owner)
+  )
+}
+
+const registerVolatile = (
+  state: RegistryState,
+  volatile: Volatile<any>,
+  registration: Registration
+) => {
+  const { registrations, owners } = state
+  const volatileRegistrations = [
+    ...registrations.get(volatile) ?? [],
+    registration
+  ]
+  registrations.set(volatile, volatileRegistrations)
+  updateRank(state, volatile, getRank(volatileRegistrations))
   volatile.getAuxiliaries().forEach((auxiliary) => {
-    registerVolatile(registry, counters, auxiliary)
-    registry.order(auxiliary, volatile)
+    if (!owners.has(auxiliary))
+      owners.set(auxiliary, new Set())
+    owners.get(auxiliary)!.add(volatile)
+    registerVolatile(state, auxiliary, getAuxiliaryRegistration(registration))
+    orderAuxiliary(state, auxiliary, volatile)
   })
 }
 
 const unregisterVolatile = (
-  registry: PartiallyOrderedSet<Volatile<any>>,
-  counters: Map<Volatile<any>, number>,
-  volatile: Volatile<any>
+  state: RegistryState,
+  volatile: Volatile<any>,
+  registration: Registration
 ) => {
-  volatile.getAuxiliaries().forEach(
-    (auxiliary) => unregisterVolatile(registry, counters, auxiliary)
-  )
-  const counter = counters.get(volatile)!
-  if (counter == 1)
-    return void registry.delete(volatile)
-  counters.set(volatile, counter - 1)
+  const { buckets, ranks, registrations, owners } = state
+  const volatileRegistrations = registrations.get(volatile)!
+  const index = volatileRegistrations.indexOf(registration)
+  const remainingRegistrations =
+    volatileRegistrations.filter((_, i) => i != index)
+  if (remainingRegistrations.length) {
+    registrations.set(volatile, remainingRegistrations)
+    updateRank(state, volatile, getRank(remainingRegistrations))
+  } else {
+    registrations.delete(volatile)
+    buckets[ranks.get(volatile)!].delete(volatile)
+    ranks.delete(volatile)
+  }
+  volatile.getAuxiliaries().forEach((auxiliary) => {
+    unregisterVolatile(state, auxiliary, getAuxiliaryRegistration(registration))
+    if (remainingRegistrations.length)
+      return
+    const auxiliaryOwners = owners.get(auxiliary)
+    auxiliaryOwners?.delete(volatile)
+    if (!auxiliaryOwners?.size)
+      owners.delete(auxiliary)
+  })
+}
+
+function* registeredVolatiles ({ buckets }: RegistryState) {
+  for (const bucket of buckets)
+    yield* bucket.sortedValues()
 }
 
 /**
- * Hook which returns a pair of callbacks `registerComponentVolatile` and
+ * Hook which returns callbacks `registerComponentVolatile` and
  * `resolveComponentVolatiles` which handle the registering and unregistering of
  * volatiles and their auxiliaries and the full resolution respectively.
  * This set of functions can be useful to components which need to intercept
  * or customize symbol resolution logic. `resolveComponentVolatiles` may be
  * called with an initializer callback that runs before symbol resolution
- * happens.
- * @returns a `[registerComponentVolatile, resolveComponentVolatiles]` pair
+ * happens. Volatiles are resolved by priority then in topological order,
+ * skipping lazy and suspended ones (see {@link ResolveOptions}); this order is
+ * maintained incrementally as volatiles get registered and unregistered. A
+ * third callback, `getComponentVolatiles`, returns the registered volatiles in
+ * resolution order for inspection purposes.
+ * @returns a `[registerComponentVolatile, resolveComponentVolatiles,
+ * getComponentVolatiles]` tuple
  */
 export const useComponentVolatileRegistryHandlers = () => {
-  const volatileRegistry = useMemo(
-    () => new PartiallyOrderedSet<Volatile<any>>(),
-    []
-  )
-  const volatileRegistryCounters = useMemo(
-    () => new Map<Volatile<any>, number>(),
-    []
-  )
-  const sortedVolatiles = useRef<Volatile<any>[]>(null)
+  const registryState = useMemo(createRegistryState, [])
   const symbolResolutionInProgress = useRef(false)
 
-  const registerComponentVolatile = useCallback((volatile: Volatile<any>) => {
-    registerVolatile(volatileRegistry, volatileRegistryCounters, volatile)
-    sortedVolatiles.current = null
-    return () => {
-      unregisterVolatile(volatileRegistry, volatileRegistryCounters, volatile)
-    }
-  }, [volatileRegistry, volatileRegistryCounters])
+  const registerComponentVolatile = useCallback(
+    (volatile: Volatile<any>, options: ResolveOptions = {}) => {
+      const { priority = "normal", lazy = false, suspended } = options
+      const registration = { rank: priorityRanks[priority], lazy, suspended }
+      registerVolatile(registryState, volatile, registration)
+      return () => unregisterVolatile(registryState, volatile, registration)
+    },
+    [registryState]
+  )
 
   const resolveComponentVolatiles = useCallback(
     (beforeResolve?: () => void) => {
@@ -485,15 +1165,30 @@ export const useComponentVolatileRegistryHandlers = () => {
       if (symbolResolutionInProgress.current)
         return
       symbolResolutionInProgress.current = true
-      if (beforeResolve)
-        beforeResolve()
-      if (!sortedVolatiles.current)
-        sortedVolatiles.current = [...volatileRegistry.sortedValues()]
-      sortedVolatiles.current.forEach((volatile) => volatile.current())
-      symbolResolutionInProgress.current = false
+      try {
+        if (beforeResolve)
+          beforeResolve()
+        const { registrations } = registryState
+        volatileProfiler.frame(() => {
+          for (const volatile of registeredVolatiles(registryState))
+            if (isResolved(registrations.get(volatile)!))
+              volatile.current()
+        })
+      } finally {
+        symbolResolutionInProgress.current = false
+      }
     },
-    [volatileRegistry]
+    [registryState]
+  )
+
+  const getComponentVolatiles = useCallback(
+    () => [...registeredVolatiles(registryState)],
+    [registryState]
   )
 
-  return [registerComponentVolatile, resolveComponentVolatiles] as const
+  return [
+    registerComponentVolatile,
+    resolveComponentVolatiles,
+    getComponentVolatiles
+  ] as const
 }
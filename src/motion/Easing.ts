@@ -0,0 +1,100 @@
+/**
+ * A function which maps the progress of an animation segment, between `0` and
+ * `1`, to its eased progress.
+ */
+export type Easing = (progress: number) => number
+
+/**
+ * The identity easing.
+ */
+export const linear: Easing = (progress) => progress
+
+// Newton-Raphson iterations are used first, then bisection if the slope is
+// too flat; values follow the implementation of WebKit
+const NEWTON_ITERATIONS = 8
+const SUBDIVISION_ITERATIONS = 20
+const EPSILON = 1e-7
+
+/**
+ * Creates an easing following a cubic Bézier curve from `(0, 0)` to `(1, 1)`,
+ * as the CSS `cubic-bezier()` function.
+ * @param x1 the abscissa of the first control point, between `0` and `1`
+ * @param y1 the ordinate of the first control point
+ * @param x2 the abscissa of the second control point, between `0` and `1`
+ * @param y2 the ordinate of the second control point
+ * @returns the easing
+ */
+export const cubicBezier = (
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number
+): Easing => {
+  // Polynomial coefficients of each coordinate
+  const cx = 3 * x1, bx = 3 * (x2 - x1) - cx, ax = 1 - cx - bx
+  const cy = 3 * y1, by = 3 * (y2 - y1) - cy, ay = 1 - cy - by
+  const sampleX = (t: number) => ((ax * t + bx) * t + cx) * t
+  const sampleY = (t: number) => ((ay * t + by) * t + cy) * t
+  const slopeX = (t: number) => (3 * ax * t + 2 * bx) * t + cx
+  const solveX = (x: number) => {
+    let t = x
+    for (let i = 0; i < NEWTON_ITERATIONS; i++) {
+      const error = sampleX(t) - x
+      if (Math.abs(error) < EPSILON)
+        return t
+      const slope = slopeX(t)
+      if (Math.abs(slope) < EPSILON)
+        break
+      t -= error / slope
+    }
+    let [lower, upper] = [0, 1]
+    t = x
+    for (let i = 0; i < SUBDIVISION_ITERATIONS; i++) {
+      const error = sampleX(t) - x
+      if (Math.abs(error) < EPSILON)
+        break
+      if (error > 0)
+        upper = t
+      else
+        lower = t
+      t = (lower + upper) / 2
+    }
+    return t
+  }
+  return (progress) => {
+    if (progress <= 0 || progress >= 1)
+      return progress <= 0? 0: 1
+    return sampleY(solveX(progress))
+  }
+}
+
+/**
+ * Creates an easing which divides the progress into equal steps, as the CSS
+ * `steps()` function.
+ * @param count the number of steps
+ * @param position whether the value jumps at the `"start"` or at the `"end"`
+ * of each step (default `"end"`)
+ * @returns the easing
+ */
+export const steps = (
+  count: number,
+  position: "start" | "end" = "end"
+): Easing => (progress) => {
+  if (progress <= 0 || progress >= 1)
+    return progress <= 0? 0: 1
+  return (position === "start"
+    ? Math.ceil(progress * count)
+    : Math.floor(progress * count)) / count
+}
+
+/** The CSS `ease` easing. */
+export const ease = cubicBezier(0.25, 0.1, 0.25, 1)
+
+/** The CSS `ease-in` easing. */
+export const easeIn = cubicBezier(0.42, 0, 1, 1)
+
+/** The CSS `ease-out` easing. */
+export const easeOut = cubicBezier(0, 0, 0.58, 1)
+
+/** The CSS `ease-in-out` easing. */
+export const easeInOut = cubicBezier(0.42, 0, 0.58, 1)
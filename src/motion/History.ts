@@ -0,0 +1,297 @@
+import { useEffect } from "react"
+
+import { RootVolatile, Volatile } from "./Volatile"
+import { inspectRoot } from "../utils/Debug"
+import { useRenderer } from "../components/rendering/Renderer"
+
+
+const DEFAULT_CAPACITY = 10000
+
+/**
+ * A recorded change of a tracked root volatile.
+ */
+export interface VolatileHistoryEntry {
+  /** The time of the change, as returned by `performance.now()`. */
+  time: number
+  /** The key of the tracked volatile. */
+  key: string
+  /** The new value, or `undefined` if the volatile was unset. */
+  value: unknown
+}
+
+type TrackedVolatile = {
+  volatile: RootVolatile<any>
+  initial: unknown
+  copy?: (value: any) => any
+  untrack: () => void
+}
+
+/**
+ * Records the changes of selected root volatiles and allows to move back and
+ * forth between the recorded states. Values are stored by reference unless a
+ * copy function is provided, e.g. for vectors which are mutated in place.
+ * Resource handles are not supported.
+ *
+ * While the history is positioned in the past, recording is suspended; note
+ * that changes made by the application (e.g. animations) in the meantime are
+ * applied to the volatiles and override the restored state.
+ *
+ * Entries are stored in a ring buffer, so that recording stays in constant
+ * time once the capacity is reached.
+ */
+export class VolatileHistory {
+  private readonly capacity: number
+  private readonly tracked: Map<string, TrackedVolatile>
+  private readonly onInvalidateHandlers: Set<() => void>
+  private entries: VolatileHistoryEntry[]
+  private first: number
+  private length: number
+  private position: number
+  private recording: boolean
+  private applying: boolean
+
+  /**
+   * Creates a history.
+   * @param capacity the maximum number of entries; older entries are
+   * discarded first (default `10000`)
+   */
+  constructor (capacity = DEFAULT_CAPACITY) {
+    this.capacity = capacity
+    this.tracked = new Map()
+    this.onInvalidateHandlers = new Set()
+    this.entries = []
+    this.first = 0
+    this.length = 0
+    this.position = 0
+    this.recording = false
+    this.applying = false
+  }
+
+  /**
+   * Starts recording the changes of the tracked volatiles. If the history is
+   * positioned in the past, it first goes back to the latest state and
+   * discards the entries after it.
+   */
+  public start () {
+    this.length = this.position
+    this.recording = true
+  }
+
+  /**
+   * Stops recording. Recorded entries are kept.
+   */
+  public stop () {
+    this.recording = false
+  }
+
+  /**
+   * Tests whether the history is currently recording.
+   * @returns `true` if the history is recording, `false` otherwise
+   */
+  public isRecording () {
+    return this.recording && this.position === this.length
+  }
+
+  /**
+   * Discards all recorded entries. The current volatile values become the
+   * initial state.
+   */
+  public clear () {
+    this.entries = []
+    this.first = 0
+    this.length = 0
+    this.position = 0
+    for (const tracked of this.tracked.values())
+      tracked.initial = this.read(tracked)
+  }
+
+  /**
+   * Starts tracking a root volatile. Its current value is used as its state
+   * before the first recorded entry.
+   * @param key the unique key of the volatile in the history
+   * @param volatile the volatile to track
+   * @param copy an optional function to copy values when recording them
+   * @returns a callback function to stop tracking the volatile
+   */
+  public track <T> (
+    key: string,
+    volatile: RootVolatile<T>,
+    copy?: (value: T) => T
+  ): () => void {
+    this.tracked.get(key)?.untrack()
+    const tracked: TrackedVolatile = {
+      volatile,
+      initial: undefined,
+      copy,
+      untrack: () => {
+        stopObserving()
+        if (this.tracked.get(key) === tracked)
+          this.tracked.delete(key)
+      }
+    }
+    tracked.initial = this.read(tracked)
+    const stopObserving = volatile.observe((value) => {
+      if (!this.applying && this.isRecording())
+        this.record(key, value === undefined? value: copy? copy(value): value)
+    })
+    this.tracked.set(key, tracked)
+    return tracked.untrack
+  }
+
+  /**
+   * Returns the recorded entries, oldest first.
+   * @returns the entries
+   */
+  public getEntries (): readonly VolatileHistoryEntry[] {
+    return Array.from({ length: this.length }, (_, i) => this.entry(i))
+  }
+
+  /**
+   * Returns the current position in the history, i.e. the number of entries
+   * applied to the tracked volatiles.
+   * @returns the position, between `0` and the number of entries
+   */
+  public getPosition () {
+    return this.position
+  }
+
+  /**
+   * Registers a handler called each time the history sets the tracked
+   * volatiles, e.g. to invalidate a renderer whose frame loop is on demand.
+   * @param handler the handler
+   * @returns a callback function to unregister the handler
+   */
+  public attachOnInvalidate (handler: () => void): () => void {
+    this.onInvalidateHandlers.add(handler)
+    return () => void this.onInvalidateHandlers.delete(handler)
+  }
+
+  /**
+   * Sets the tracked volatiles to their state after the specified number of
+   * entries, in a single batch, then runs the invalidation handlers (see
+   * {@link attachOnInvalidate}). Seeking to the number of entries goes back to
+   * the latest state and resumes recording if it is started.
+   * @param position the target position
+   */
+  public seek (position: number) {
+    position = Math.max(0, Math.min(position, this.length))
+    const values = new Map<string, unknown>()
+    for (const [key, tracked] of this.tracked)
+      values.set(key, tracked.initial)
+    // Entries of volatiles which are not tracked anymore are skipped
+    for (let i = 0; i < position; i++) {
+      const { key, value } = this.entry(i)
+      if (this.tracked.has(key))
+        values.set(key, value)
+    }
+    this.applying = true
+    try {
+      Volatile.batch(() => {
+        for (const [key, value] of values) {
+          const { volatile, copy } = this.tracked.get(key)!
+          if (value === undefined)
+            volatile.unset()
+          else
+            volatile.set(copy? copy(value): value)
+        }
+      })
+    } finally {
+      this.applying = false
+    }
+    this.position = position
+    this.onInvalidateHandlers.forEach((handler) => handler())
+  }
+
+  /**
+   * Moves backward in the history.
+   * @param steps the number of entries to undo (default `1`)
+   */
+  public back (steps = 1) {
+    this.seek(this.position - steps)
+  }
+
+  /**
+   * Moves forward in the history.
+   * @param steps the number of entries to redo (default `1`)
+   */
+  public forward (steps = 1) {
+    this.seek(this.position + steps)
+  }
+
+  /**
+   * Moves to the time of the last entry recorded at or before the specified
+   * time.
+   * @param time the time, as returned by `performance.now()`
+   */
+  public seekTime (time: number) {
+    let position = 0
+    while (position < this.length && this.entry(position).time <= time)
+      position++
+    this.seek(position)
+  }
+
+  private read (tracked: TrackedVolatile) {
+    if (!tracked.volatile.ready())
+      return undefined
+    const value = tracked.volatile.current()
+    return tracked.copy? tracked.copy(value): value
+  }
+
+  private entry (index: number) {
+    return this.entries[(this.first + index) % this.capacity]
+  }
+
+  private record (key: string, value: unknown) {
+    const entry = { time: performance.now(), key, value }
+    if (this.length < this.capacity) {
+      this.entries[(this.first + this.length) % this.capacity] = entry
+      this.length++
+      this.position++
+      return
+    }
+    // The oldest entry is overwritten and becomes part of the initial state
+    const discarded = this.entries[this.first]
+    const tracked = this.tracked.get(discarded.key)
+    if (tracked)
+      tracked.initial = discarded.value
+    this.entries[this.first] = entry
+    this.first = (this.first + 1) % this.capacity
+  }
+}
+
+/**
+ * The default volatile history. In debug builds, it is also available in
+ * {@link inspectRoot} as `volatileHistory`.
+ */
+export const volatileHistory = new VolatileHistory()
+
+__DEBUG_STATEMENT__: {
+  if (typeof window !== "undefined")
+    inspectRoot().volatileHistory = volatileHistory
+}
+
+/**
+ * Hook that tracks a root volatile in a history while mounted. Seeking in the
+ * history invalidates the current renderer.
+ * @template T the value type
+ * @param key the unique key of the volatile in the history
+ * @param volatile the volatile to track
+ * @param history the history (default {@link volatileHistory})
+ * @param copy an optional function to copy values when recording them
+ */
+export const useVolatileHistoryTracking = <T> (
+  key: string,
+  volatile: RootVolatile<T>,
+  history: VolatileHistory = volatileHistory,
+  copy?: (value: T) => T
+) => {
+  const { invalidate } = useRenderer()
+  useEffect(
+    () => history.attachOnInvalidate(invalidate),
+    [history, invalidate]
+  )
+  useEffect(
+    () => history.track(key, volatile, copy),
+    [key, volatile, history, copy]
+  )
+}
@@ -0,0 +1,356 @@
+import { useEffect, useMemo } from "react"
+
+import { EqualityFunction, RootVolatile, Volatile } from "./Volatile"
+import { useRenderer } from "../components/rendering/Renderer"
+
+
+declare global {
+  interface SymbolConstructor {
+    readonly observable: symbol
+  }
+}
+
+// Interoperability with libraries such as RxJS (e.g. `from(observable)`)
+const observableSymbol: symbol | string = Symbol.observable ?? "@@observable"
+
+/**
+ * A store whose state can be read and observed, e.g. a zustand or Redux store.
+ * @template S the state type
+ */
+export interface ExternalStore<S> {
+  getState (): S
+  subscribe (listener: () => void): () => void
+}
+
+/**
+ * Receives the notifications of an observable.
+ * @template T the value type
+ */
+export interface Observer<T> {
+  next (value: T): void
+  error (error: unknown): void
+  complete (): void
+}
+
+/**
+ * A subscription to an observable.
+ */
+export interface Unsubscribable {
+  unsubscribe (): void
+}
+
+/**
+ * An observable, e.g. from RxJS.
+ * @template T the value type
+ */
+export interface Subscribable<T> {
+  subscribe (observer: Partial<Observer<T>>): Unsubscribable
+}
+
+/**
+ * A root volatile whose value is selected from the state of an external store.
+ * The volatile is not ready while the selected value is `undefined`, and is
+ * only invalidated when the selected value changes according to `equals`.
+ * The store is observed once connected, until disposed.
+ * @template S the state type
+ * @template T the value type
+ */
+export class StoreVolatile<S, T> extends RootVolatile<T> {
+  private readonly store: ExternalStore<S>
+  private readonly selector: (state: S) => T | undefined
+  private readonly selectionEquals: EqualityFunction<T>
+  private unsubscribe?: () => void
+
+  /**
+   * Creates a store volatile, initialized with the current selected value.
+   * @param store the store
+   * @param selector the function that selects the value from the state
+   * @param equals an optional equality function (default `Object.is`)
+   */
+  constructor (
+    store: ExternalStore<S>,
+    selector: (state: S) => T | undefined,
+    equals: EqualityFunction<T> = Object.is
+  ) {
+    super()
+    this.store = store
+    this.selector = selector
+    this.selectionEquals = equals
+    this.unsubscribe = undefined
+    this.update()
+  }
+
+  /**
+   * Subscribes to the store, if not subscribed yet.
+   */
+  public connect () {
+    if (this.unsubscribe)
+      return
+    this.update()
+    this.unsubscribe = this.store.subscribe(() => this.update())
+  }
+
+  /**
+   * Releases the store subscription and unsets the volatile.
+   */
+  public dispose () {
+    this.unsubscribe?.()
+    this.unsubscribe = undefined
+    this.unset()
+  }
+
+  private update () {
+    const value = this.selector(this.store.getState())
+    if (value === undefined)
+      return void (this.ready() && this.unset())
+    if (!this.ready() || !this.selectionEquals(this.current() as T, value))
+      this.set(value)
+  }
+}
+
+/**
+ * A root volatile whose value is the latest value emitted by an observable.
+ * The volatile is not ready until the first value is emitted. When the
+ * observable fails, the volatile is unset and the error is exposed through
+ * `getError`; when it completes, the volatile keeps its last value. The
+ * observable is observed once connected, until disposed, failed or completed,
+ * after which `connect` subscribes again.
+ * @template T the value type
+ */
+export class ObservableVolatile<T> extends RootVolatile<T> {
+  private readonly observable: Subscribable<T>
+  private subscription?: Unsubscribable
+  private error: unknown
+
+  /**
+   * Creates an observable volatile, which is not ready until connected.
+   * @param observable the observable
+   */
+  constructor (observable: Subscribable<T>) {
+    super()
+    this.observable = observable
+    this.subscription = undefined
+    this.error = undefined
+  }
+
+  /**
+   * Subscribes to the observable, if not subscribed yet.
+   */
+  public connect () {
+    if (this.subscription)
+      return
+    // The observable may fail or complete synchronously, before `subscribe`
+    // returns the subscription
+    let closed = false
+    const close = () => {
+      closed = true
+      this.subscription = undefined
+    }
+    const subscription = this.observable.subscribe({
+      next: (value) => {
+        this.error = undefined
+        this.set(value)
+      },
+      error: (error) => {
+        close()
+        this.error = error
+        this.unset()
+        this.signalErrorStateChange()
+      },
+      complete: close
+    })
+    if (!closed)
+      this.subscription = subscription
+  }
+
+  /**
+   * Returns the error emitted by the observable, if it failed.
+   * @returns the error or `undefined`
+   */
+  public getError (): unknown {
+    return this.error
+  }
+
+  /**
+   * Releases the subscription and unsets the volatile.
+   */
+  public dispose () {
+    this.subscription?.unsubscribe()
+    this.subscription = undefined
+    this.error = undefined
+    this.unset()
+  }
+}
+
+/**
+ * An observable emitting the successive values of a volatile.
+ * @template T the value type
+ */
+export class VolatileObservable<T> implements Subscribable<T> {
+  private readonly volatile: Volatile<T>
+
+  constructor (volatile: Volatile<T>) {
+    this.volatile = volatile
+  }
+
+  [observableSymbol] () {
+    return this
+  }
+
+  /**
+   * Subscribes to the volatile values. The current value is emitted
+   * immediately if the volatile is ready; a new value is then emitted in a
+   * microtask each time the volatile is ready after having changed, so that
+   * the volatile is not computed while its changes are being propagated.
+   * Values are not emitted while the volatile is not ready, and the observable
+   * never completes.
+   * @param observer the observer or its `next` function
+   * @returns the subscription
+   */
+  public subscribe (
+    observer: Partial<Observer<T>> | ((value: T) => void)
+  ): Unsubscribable {
+    const next = typeof observer === "function"
+      ? observer
+      : observer.next?.bind(observer)
+    let version: number | undefined = undefined
+    let scheduled = false
+    let closed = false
+    const emit = () => {
+      const value = this.volatile.current()
+      if (!this.volatile.ready() || this.volatile.getVersion() === version)
+        return
+      version = this.volatile.getVersion()
+      next?.(value as T)
+    }
+    // Successive changes result in a single emission of the latest value
+    const schedule = () => {
+      if (scheduled)
+        return
+      scheduled = true
+      queueMicrotask(() => {
+        scheduled = false
+        if (!closed)
+          emit()
+      })
+    }
+    const unsubscribes = [
+      this.volatile.subscribeInvalidation(schedule),
+      this.volatile.subscribeReadyStateChange(schedule)
+    ]
+    emit()
+    return {
+      unsubscribe: () => {
+        closed = true
+        unsubscribes.forEach((unsubscribe) => unsubscribe())
+      }
+    }
+  }
+}
+
+/**
+ * Creates a volatile whose value is selected from the state of an external
+ * store (see {@link StoreVolatile}).
+ * @template S the state type
+ * @template T the value type
+ * @param store the store
+ * @param selector the function that selects the value from the state
+ * @param equals an optional equality function (default `Object.is`)
+ * @returns the connected store volatile, to dispose when no longer used
+ */
+export const volatileFromStore = <S, T> (
+  store: ExternalStore<S>,
+  selector: (state: S) => T | undefined,
+  equals?: EqualityFunction<T>
+) => {
+  const volatile = new StoreVolatile(store, selector, equals)
+  volatile.connect()
+  return volatile
+}
+
+/**
+ * Creates a volatile whose value is the latest value emitted by an observable
+ * (see {@link ObservableVolatile}).
+ * @template T the value type
+ * @param observable the observable
+ * @returns the connected observable volatile, to dispose when no longer used
+ */
+export const volatileFromObservable = <T> (observable: Subscribable<T>) => {
+  const volatile = new ObservableVolatile(observable)
+  volatile.connect()
+  return volatile
+}
+
+/**
+ * Creates an observable emitting the successive values of a volatile (see
+ * {@link VolatileObservable}).
+ * @template T the value type
+ * @param volatile the volatile
+ * @returns the observable
+ */
+export const toObservable = <T> (volatile: Volatile<T>) =>
+  new VolatileObservable(volatile)
+
+// Values set from outside of React and of the frame loop must request a frame
+// when the frame loop is on demand
+const useInvalidateOnChange = <T> (volatile: RootVolatile<T>) => {
+  const { invalidate } = useRenderer()
+  useEffect(
+    () => volatile.observe(() => invalidate()),
+    [volatile, invalidate]
+  )
+}
+
+/**
+ * Hook that creates a volatile whose value is selected from the state of an
+ * external store. The subscription is released on unmount or when `store` or
+ * `deps` change. Changes of the selected value invalidate the current
+ * renderer.
+ * @template S the state type
+ * @template T the value type
+ * @param store the store
+ * @param selector the function that selects the value from the state
+ * @param deps an optional dependency array for `selector`
+ * @param equals an optional equality function (default `Object.is`)
+ * @returns the store volatile
+ */
+export const useStoreVolatile = <S, T> (
+  store: ExternalStore<S>,
+  selector: (state: S) => T | undefined,
+  deps: any[] = [],
+  equals?: EqualityFunction<T>
+): Volatile<T> => {
+  const volatile = useMemo(
+    () => new StoreVolatile(store, selector, equals),
+    [store, ...deps]
+  )
+  useInvalidateOnChange(volatile)
+  useEffect(() => {
+    volatile.connect()
+    return () => volatile.dispose()
+  }, [volatile])
+  return volatile
+}
+
+/**
+ * Hook that creates a volatile whose value is the latest value emitted by an
+ * observable. The subscription is released on unmount or when `observable`
+ * changes. Emitted values invalidate the current renderer.
+ * @template T the value type
+ * @param observable the observable
+ * @returns the observable volatile
+ */
+export const useObservableVolatile = <T> (
+  observable: Subscribable<T>
+): Volatile<T> => {
+  const volatile = useMemo(
+    () => new ObservableVolatile(observable),
+    [observable]
+  )
+  useInvalidateOnChange(volatile)
+  useEffect(() => {
+    volatile.connect()
+    return () => volatile.dispose()
+  }, [volatile])
+  return volatile
+}
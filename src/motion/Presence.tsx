@@ -0,0 +1,214 @@
+import React, { Children, createContext, isValidElement, Key, ReactElement,
+  ReactNode, useContext, useEffect, useMemo, useReducer, useRef } from "react"
+import { Vector3 } from "three"
+
+import { RootVolatile, useDerivatedVolatile, Volatile } from "./Volatile"
+import { Easing, easeOut } from "./Easing"
+import { Interpolator, interpolate, keyframes, Timeline } from "./Timeline"
+import { useClock, useMotionPolicy } from "./Animation"
+import { Group } from "../components/base/Group"
+import { Vector3ConstructorExtended } from "../primitives/Constructors"
+import { Position3ValueType } from "../primitives/ValueTypes"
+
+
+const present = new RootVolatile(1)
+
+const PresenceContext = createContext<Volatile<number>>(present)
+
+/**
+ * Hook that returns the presence of the current {@link Presence} child, from
+ * `0` (absent) to `1` (present). Outside of a `Presence` component, the
+ * presence is always `1`.
+ * @returns the presence volatile
+ */
+export const usePresence = () => useContext(PresenceContext)
+
+/**
+ * Hook that returns a value interpolated between two values according to the
+ * presence of the current {@link Presence} child, e.g. an opacity or an
+ * offset. `absent` and `present` should be stable, e.g. memoized.
+ * @template T the value type
+ * @param absent the value when the child is absent
+ * @param present the value when the child is present
+ * @param interpolator an optional interpolation function (default
+ * {@link interpolate})
+ * @returns the interpolated value volatile
+ */
+export const usePresenceValue = <T,> (
+  absent: T,
+  present: T,
+  interpolator: Interpolator<T> = interpolate
+): Volatile<T> => useDerivatedVolatile(
+  usePresence(),
+  (presence) => interpolator(absent, present, presence),
+  [absent, present, interpolator]
+)
+
+/**
+ * Resets the presence of the `children` subtree, which is then always `1`.
+ * Local layout clients use it so that only the outermost client of a
+ * {@link Presence} child animates the space it occupies.
+ * @param props.children classic React children
+ */
+export const IgnorePresence = ({ children }: { children?: ReactNode }) => (
+  <PresenceContext.Provider value={present}>
+    {children}
+  </PresenceContext.Provider>
+)
+
+type PresenceChildProps = {
+  present: boolean
+  initial: number
+  duration: number
+  easing: Easing
+  onExited: () => void
+  children: ReactNode
+}
+
+// Animates the presence of a child towards `1` when present and towards `0`
+// otherwise. Interrupted transitions start from the current presence.
+const PresenceChild = (
+  { present, initial, duration, easing, onExited, children }:
+    PresenceChildProps
+) => {
+  const clock = useClock()
+  const presence = useMemo(() => new RootVolatile(initial), [])
+  useEffect(() => {
+    const from = presence.current() as number
+    const to = present? 1: 0
+    if (from === to || !duration) {
+      presence.set(to)
+      return void (!present && onExited())
+    }
+    const timeline = new Timeline(
+      keyframes([
+        { time: 0, value: from },
+        { time: Math.abs(to - from) * duration, value: to, easing }
+      ], { volatile: presence }),
+      clock
+    )
+    const unobserve = presence.observe((value) => {
+      if (!present && value === 0)
+        onExited()
+    })
+    timeline.play()
+    return () => {
+      unobserve()
+      timeline.pause()
+    }
+  }, [present, duration, easing, clock])
+  return (
+    <PresenceContext.Provider value={presence}>
+      {children}
+    </PresenceContext.Provider>
+  )
+}
+
+type PresenceProps = {
+  children?: ReactNode
+  duration?: number
+  easing?: Easing
+  initial?: boolean
+}
+
+/**
+ * Animates the mounting and unmounting of its children, identified by their
+ * key. Removed children are kept mounted until their presence (see
+ * {@link usePresence}) reaches `0`, and added children are mounted with a
+ * presence animated from `0` to `1`. Local layout clients collapse vertically
+ * with the presence of their child, so that the surrounding layout animates
+ * into the freed space; other transitions, e.g. fading, scaling or sliding,
+ * can be driven by {@link usePresenceValue} or {@link PresenceGroup}. Note
+ * that table layouts (e.g. `VerticalStackBox`) order the children of a row by
+ * mounting order: use one `Presence` per row to insert rows at a given place.
+ * Transitions are instant when the motion policy is `"none"` (see
+ * {@link MotionPolicy}).
+ * @param props.duration the duration of a transition, in milliseconds (default
+ * `300`)
+ * @param props.easing the easing of transitions (default `easeOut`)
+ * @param props.initial set this to true to also animate the children present
+ * on mount
+ * @param props.children the children, which should have keys
+ */
+export const Presence = (
+  { children, duration = 300, easing = easeOut, initial = false }:
+    PresenceProps
+) => {
+  const policy = useMotionPolicy()
+  const [, updateState] = useReducer((x: number) => x + 1, 0)
+  const rendered = useRef<ReactElement[]>([])
+  const exited = useRef(new Set<Key>())
+  const mounted = useRef(false)
+  useEffect(() => {
+    mounted.current = true
+  }, [])
+  const current = Children.toArray(children).filter(isValidElement)
+  const currentKeys = new Set(current.map(({ key }) => key!))
+  // Exiting children are kept at their previous index
+  const elements = [...current]
+  rendered.current.forEach((element, index) => {
+    if (!currentKeys.has(element.key!) && !exited.current.has(element.key!))
+      elements.splice(Math.min(index, elements.length), 0, element)
+  })
+  current.forEach(({ key }) => exited.current.delete(key!))
+  rendered.current = elements
+  return (
+    <>
+      {elements.map((element) => (
+        <PresenceChild
+          key={element.key}
+          present={currentKeys.has(element.key!)}
+          initial={mounted.current || initial? 0: 1}
+          duration={policy === "none"? 0: duration}
+          easing={easing}
+          onExited={() => {
+            exited.current.add(element.key!)
+            updateState()
+          }}
+          >
+          {element}
+        </PresenceChild>
+      ))}
+    </>
+  )
+}
+
+type PresenceGroupProps = {
+  children?: ReactNode
+  scale?: number
+  offset?: Position3ValueType
+}
+
+/**
+ * A group which scales and slides its children according to the presence of
+ * the current {@link Presence} child.
+ * @param props.scale the scale of the children when absent (default `1`)
+ * @param props.offset the position of the children when absent (default
+ * `[0, 0, 0]`)
+ * @param props.children classic React children
+ */
+export const PresenceGroup = (
+  { children, scale = 1, offset = [0, 0, 0] }: PresenceGroupProps
+) => {
+  const presence = usePresence()
+  const [x, y, z] = Vector3ConstructorExtended.create(offset).toArray()
+  const absentOffset = useMemo(() => new Vector3(x, y, z), [x, y, z])
+  const position = useDerivatedVolatile(
+    presence,
+    (value) => absentOffset.clone().multiplyScalar(1 - value),
+    [absentOffset]
+  )
+  const groupScale = useDerivatedVolatile(
+    presence,
+    (value) => {
+      const uniformScale = scale + (1 - scale) * value
+      return new Vector3(uniformScale, uniformScale, uniformScale)
+    },
+    [scale]
+  )
+  return (
+    <Group position={position} scale={groupScale}>
+      {children}
+    </Group>
+  )
+}
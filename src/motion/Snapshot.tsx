@@ -0,0 +1,211 @@
+import React, { createContext, ReactNode, useContext, useEffect } from "react"
+import { Box2, Color, Vector2, Vector3 } from "three"
+
+import { isVolatile, RootVolatile, useVolatile, Volatile } from "./Volatile"
+import { warn } from "../logging/Log"
+
+
+/**
+ * Represents a JSON-serializable value.
+ */
+export type JsonValue =
+  | null
+  | boolean
+  | number
+  | string
+  | JsonValue[]
+  | { [key: string]: JsonValue }
+
+/**
+ * Converts volatile values to and from JSON-serializable values.
+ * @template T the value type
+ */
+export interface VolatileCodec<T> {
+  encode (value: T): JsonValue
+  decode (encoded: JsonValue): T
+}
+
+/**
+ * Codec for values which are already JSON-serializable.
+ */
+export const jsonCodec: VolatileCodec<any> = {
+  encode: (value) => value,
+  decode: (encoded) => encoded
+}
+
+/**
+ * Codec for {@link Vector2} values, encoded as `[x, y]`.
+ */
+export const vector2Codec: VolatileCodec<Vector2> = {
+  encode: ({ x, y }) => [x, y],
+  decode: (encoded) => new Vector2().fromArray(encoded as number[])
+}
+
+/**
+ * Codec for {@link Vector3} values, encoded as `[x, y, z]`.
+ */
+export const vector3Codec: VolatileCodec<Vector3> = {
+  encode: ({ x, y, z }) => [x, y, z],
+  decode: (encoded) => new Vector3().fromArray(encoded as number[])
+}
+
+/**
+ * Codec for {@link Box2} values, encoded as `[[minX, minY], [maxX, maxY]]`.
+ */
+export const box2Codec: VolatileCodec<Box2> = {
+  encode: ({ min, max }) => [vector2Codec.encode(min), vector2Codec.encode(max)],
+  decode: (encoded) => {
+    const [min, max] = encoded as JsonValue[]
+    return new Box2(vector2Codec.decode(min), vector2Codec.decode(max))
+  }
+}
+
+/**
+ * Codec for {@link Color} values, encoded as `[r, g, b]` in the working color
+ * space so that they are restored exactly.
+ */
+export const colorCodec: VolatileCodec<Color> = {
+  encode: ({ r, g, b }) => [r, g, b],
+  decode: (encoded) => new Color().fromArray(encoded as number[])
+}
+
+/**
+ * JSON-serializable state of the volatiles of a {@link SnapshotRegistry}, by
+ * key. Volatiles which are not ready are omitted.
+ */
+export type VolatileSnapshot = { [key: string]: JsonValue }
+
+type SnapshotRegistryEntry = {
+  volatile: RootVolatile<any>
+  codec: VolatileCodec<any>
+}
+
+/**
+ * Holds root volatiles by key so that their state can be saved and restored,
+ * e.g. to persist, replay or reproduce scene states.
+ */
+export class SnapshotRegistry {
+  private readonly entries: Map<string, SnapshotRegistryEntry>
+
+  constructor () {
+    this.entries = new Map()
+  }
+
+  /**
+   * Binds a root volatile to a key. A volatile previously registered with the
+   * same key is replaced.
+   * @template T the value type
+   * @param key the unique key of the volatile
+   * @param volatile the volatile to register
+   * @param codec an optional codec (values are stored as is by default)
+   * @returns a callback function to unregister the volatile
+   */
+  public register <T> (
+    key: string,
+    volatile: RootVolatile<T>,
+    codec: VolatileCodec<T> = jsonCodec
+  ): () => void {
+    __DEBUG_STATEMENT__: {
+      if (this.entries.has(key))
+        warn(`Volatile key '${key}' is already registered, replacing it`)
+    }
+    const entry = { volatile, codec }
+    this.entries.set(key, entry)
+    return () => {
+      if (this.entries.get(key) === entry)
+        this.entries.delete(key)
+    }
+  }
+
+  /**
+   * Returns the volatile registered with the specified key, if any.
+   * @param key the key of the volatile
+   * @returns the volatile or `undefined`
+   */
+  public get (key: string): RootVolatile<any> | undefined {
+    return this.entries.get(key)?.volatile
+  }
+
+  /**
+   * Returns the encoded values of all the ready volatiles.
+   * @returns a JSON-serializable snapshot
+   */
+  public snapshot (): VolatileSnapshot {
+    const snapshot: VolatileSnapshot = {}
+    for (const [key, { volatile, codec }] of this.entries)
+      if (volatile.ready())
+        snapshot[key] = codec.encode(volatile.current())
+    return snapshot
+  }
+
+  /**
+   * Sets the volatiles to the values of a snapshot in a single batch (see
+   * {@link Volatile.batch}). Registered volatiles that are absent from the
+   * snapshot are left untouched; snapshot keys that are not registered are
+   * ignored.
+   * @param snapshot the snapshot to restore
+   */
+  public restore (snapshot: VolatileSnapshot): void {
+    Volatile.batch(() => {
+      for (const [key, encoded] of Object.entries(snapshot)) {
+        const entry = this.entries.get(key)
+        if (!entry) {
+          warn(`No volatile registered with key '${key}'`)
+          continue
+        }
+        entry.volatile.set(entry.codec.decode(encoded))
+      }
+    })
+  }
+}
+
+const SnapshotRegistryContext = createContext(new SnapshotRegistry())
+
+/**
+ * Exposes a snapshot registry to the `children` subtree. Without provider, a
+ * global registry is used.
+ * @param props.registry the snapshot registry
+ */
+export const SnapshotRegistryProvider = (
+  { registry, children }: { registry: SnapshotRegistry, children: ReactNode }
+) => (
+  <SnapshotRegistryContext.Provider value={registry}>
+    {children}
+  </SnapshotRegistryContext.Provider>
+)
+
+/**
+ * Hook that returns the current snapshot registry.
+ * @returns the current {@link SnapshotRegistry}
+ */
+export const useSnapshotRegistry = () => useContext(SnapshotRegistryContext)
+
+/**
+ * Same as `useVolatile`, but registers the volatile in the current snapshot
+ * registry with the specified key while mounted.
+ * @template T the value type
+ * @param key the unique key of the volatile
+ * @param initial the initial value or an existing root volatile (optional);
+ * derivated volatiles cannot be restored and are not accepted
+ * @param codec an optional codec (values are stored as is by default)
+ * @returns the instantiated volatile
+ */
+export const useSnapshotVolatile = <T,> (
+  key: string,
+  initial?: T | RootVolatile<T>,
+  codec?: VolatileCodec<T>
+): RootVolatile<T> => {
+  const registry = useSnapshotRegistry()
+  __DEBUG_STATEMENT__: {
+    if (isVolatile(initial) && !(initial instanceof RootVolatile))
+      throw new Error(`Volatile '${key}' is not a root volatile`)
+  }
+  const volatile = useVolatile<T>(
+    ...(initial === undefined? []: [initial]) as [(T | RootVolatile<T>)?]
+  )
+  useEffect(
+    () => registry.register(key, volatile, codec),
+    [registry, key, volatile, codec]
+  )
+  return volatile
+}
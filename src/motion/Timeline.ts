@@ -0,0 +1,388 @@
+import { useEffect, useMemo } from "react"
+
+import { RootVolatile } from "./Volatile"
+import { Easing, linear } from "./Easing"
+import { getAnimationTime, subscribeAnimationTick, useClock } from "./Animation"
+import { Clock } from "./Clock"
+
+
+/**
+ * A time-based animation, which can be composed with other animations and
+ * played by a {@link Timeline}. Times are expressed in milliseconds.
+ */
+export interface TimelineAnimation {
+  /** The duration of the animation, possibly `Infinity`. */
+  readonly duration: number
+  /**
+   * Sets the animated volatiles to their state at the specified time.
+   * @param time the time from the start, between `0` and the duration
+   */
+  apply (time: number): void
+}
+
+/**
+ * A value of a keyframe animation at a given time.
+ * @template T the value type
+ */
+export interface Keyframe<T> {
+  /** The time of the keyframe from the start of the animation. */
+  time: number
+  /** The value at that time. */
+  value: T
+  /** The easing of the segment leading to this keyframe (default linear). */
+  easing?: Easing
+}
+
+/**
+ * A function which computes an intermediate value between two keyframes.
+ * @template T the value type
+ */
+export type Interpolator<T> = (from: T, to: T, progress: number) => T
+
+/**
+ * Interpolates numbers linearly, as well as objects which implement `clone`
+ * and `lerp`, e.g. three.js vectors and colors. Other values are not
+ * interpolated: the value of the next keyframe is taken once it is reached.
+ * @param from the value of the previous keyframe
+ * @param to the value of the next keyframe
+ * @param progress the eased progress between the keyframes
+ * @returns the intermediate value
+ */
+export const interpolate = <T> (from: T, to: T, progress: number): T => {
+  if (typeof from === "number" && typeof to === "number")
+    return from + (to - from) * progress as T
+  const lerpable = from as {
+    clone?: () => { lerp (to: T, alpha: number): T }
+    lerp?: unknown
+  }
+  if (
+    typeof lerpable?.clone === "function"
+      && typeof lerpable?.lerp === "function"
+  )
+    return lerpable.clone().lerp(to, progress)
+  return progress < 1? from: to
+}
+
+type KeyframeAnimationOptions<T> = {
+  interpolate?: Interpolator<T>
+  volatile?: RootVolatile<T>
+}
+
+/**
+ * An animation which interpolates a root volatile between keyframes. Before
+ * the first keyframe and after the last one, the volatile holds their values.
+ * @template T the value type
+ */
+export class KeyframeAnimation<T> implements TimelineAnimation {
+  /** The animated volatile. */
+  public readonly volatile: RootVolatile<T>
+  public readonly duration: number
+  private readonly keyframes: Keyframe<T>[]
+  private readonly interpolate: Interpolator<T>
+  private lastTime?: number
+  private lastVersion?: number
+
+  /**
+   * Creates a keyframe animation. If the volatile is not ready, it is set to
+   * the value of the first keyframe.
+   * @param keyframes the keyframes, in any order
+   * @param options.interpolate an optional interpolation function (default
+   * {@link interpolate})
+   * @param options.volatile an optional volatile to animate; a new one is
+   * created otherwise
+   */
+  constructor (keyframes: Keyframe<T>[], options: KeyframeAnimationOptions<T>) {
+    if (!keyframes.length)
+      throw new Error("A keyframe animation requires at least one keyframe")
+    this.keyframes = [...keyframes].sort((a, b) => a.time - b.time)
+    this.interpolate = options.interpolate ?? interpolate
+    this.volatile = options.volatile ?? new RootVolatile<T>()
+    this.duration = this.keyframes[this.keyframes.length - 1].time
+    this.lastTime = undefined
+    this.lastVersion = undefined
+    if (!this.volatile.ready())
+      this.volatile.set(this.keyframes[0].value)
+  }
+
+  public apply (time: number) {
+    // Skips the update if the volatile was not modified since the last one
+    if (
+      time === this.lastTime
+        && this.volatile.getVersion() === this.lastVersion
+    )
+      return
+    this.volatile.set(this.sample(time))
+    this.lastTime = time
+    this.lastVersion = this.volatile.getVersion()
+  }
+
+  /**
+   * Computes the value of the animation at the specified time.
+   * @param time the time from the start
+   * @returns the value
+   */
+  public sample (time: number): T {
+    const keyframes = this.keyframes
+    const next = keyframes.findIndex((keyframe) => keyframe.time > time)
+    if (next === 0)
+      return keyframes[0].value
+    if (next === -1)
+      return keyframes[keyframes.length - 1].value
+    const from = keyframes[next - 1]
+    const to = keyframes[next]
+    const progress = (time - from.time) / (to.time - from.time)
+    return this.interpolate(
+      from.value,
+      to.value,
+      (to.easing ?? linear)(progress)
+    )
+  }
+}
+
+/**
+ * Creates an animation which interpolates a volatile between keyframes (see
+ * {@link KeyframeAnimation}).
+ * @template T the value type
+ * @param frames the keyframes
+ * @param options.interpolate an optional interpolation function
+ * @param options.volatile an optional volatile to animate
+ * @returns the animation, whose `volatile` holds the animated value
+ */
+export const keyframes = <T> (
+  frames: Keyframe<T>[],
+  options: KeyframeAnimationOptions<T> = {}
+) => new KeyframeAnimation(frames, options)
+
+/**
+ * Creates an animation which does nothing for the specified duration, e.g. to
+ * insert a pause in a sequence.
+ * @param duration the duration
+ * @returns the animation
+ */
+export const delay = (duration: number): TimelineAnimation => ({
+  duration,
+  apply: () => {}
+})
+
+/**
+ * Creates an animation which plays animations one after the other. When
+ * several animations animate the same volatile, the current one prevails.
+ * @param animations the animations
+ * @returns the animation
+ */
+export const sequence = (
+  ...animations: TimelineAnimation[]
+): TimelineAnimation => {
+  const starts: number[] = []
+  const duration = animations.reduce((start, animation) => {
+    starts.push(start)
+    return start + animation.duration
+  }, 0)
+  return {
+    duration,
+    apply: (time) => {
+      let current = 0
+      while (current < animations.length - 1 && starts[current + 1] <= time)
+        current++
+      // The next animations are reset, latest first, and the previous ones
+      // completed before the current one is applied
+      for (let i = animations.length - 1; i > current; i--)
+        animations[i].apply(0)
+      for (let i = 0; i < current; i++)
+        animations[i].apply(animations[i].duration)
+      animations[current]?.apply(time - starts[current])
+    }
+  }
+}
+
+/**
+ * Creates an animation which plays animations simultaneously. Its duration is
+ * the longest of theirs.
+ * @param animations the animations
+ * @returns the animation
+ */
+export const parallel = (
+  ...animations: TimelineAnimation[]
+): TimelineAnimation => ({
+  duration: Math.max(0, ...animations.map(({ duration }) => duration)),
+  apply: (time) => animations.forEach(
+    (animation) => animation.apply(Math.min(time, animation.duration))
+  )
+})
+
+/**
+ * Creates an animation which repeats an animation.
+ * @param animation the animation to repeat
+ * @param count the number of iterations (default `Infinity`)
+ * @param alternate set this to true to play every other iteration backwards
+ * @returns the animation
+ */
+export const loop = (
+  animation: TimelineAnimation,
+  count = Infinity,
+  alternate = false
+): TimelineAnimation => ({
+  duration: animation.duration && animation.duration * count,
+  apply: (time) => {
+    const duration = animation.duration
+    if (!duration)
+      return animation.apply(0)
+    const iteration = Math.min(Math.floor(time / duration), count - 1)
+    const localTime = time - iteration * duration
+    animation.apply(
+      alternate && iteration % 2? duration - localTime: localTime
+    )
+  }
+})
+
+/**
+ * Creates an animation which plays an animation of finite duration backwards.
+ * @param animation the animation to reverse
+ * @returns the animation
+ */
+export const reverse = (animation: TimelineAnimation): TimelineAnimation => ({
+  duration: animation.duration,
+  apply: (time) => animation.apply(animation.duration - time)
+})
+
+/**
+ * Plays an animation. While playing, the timeline is updated on each
+ * animation tick (see {@link subscribeAnimationTick}), which keeps the
+ * renderer running; it stops once the end of the animation is reached.
+ */
+export class Timeline {
+  private readonly animation: TimelineAnimation
+  private readonly clock?: Clock
+  private time: number
+  private direction: 1 | -1
+  private origin?: { clockTime: number, time: number }
+  private unsubscribe?: () => void
+
+  /**
+   * Creates a timeline and applies the start of the animation.
+   * @param animation the animation to play
+   * @param clock an optional clock (default: the clock of the animation
+   * handler, see {@link getAnimationTime})
+   */
+  constructor (animation: TimelineAnimation, clock?: Clock) {
+    this.animation = animation
+    this.clock = clock
+    this.time = 0
+    this.direction = 1
+    this.origin = undefined
+    this.unsubscribe = undefined
+    this.animation.apply(0)
+  }
+
+  /**
+   * Starts or resumes playing in the current direction. If the timeline is at
+   * the end in that direction, it restarts from the other end.
+   */
+  public play () {
+    if (this.unsubscribe)
+      return
+    const end = this.direction > 0? this.animation.duration: 0
+    if (this.time === end)
+      this.seek(this.animation.duration - end)
+    // Updated in place when seeking while playing
+    const origin = { clockTime: this.now(), time: this.time }
+    this.origin = origin
+    this.unsubscribe = subscribeAnimationTick(() => {
+      const { clockTime, time } = origin
+      this.update(time + this.direction * (this.now() - clockTime))
+      if (this.time === end)
+        this.pause()
+    })
+  }
+
+  /**
+   * Pauses the timeline at the current time.
+   */
+  public pause () {
+    this.unsubscribe?.()
+    this.unsubscribe = undefined
+    this.origin = undefined
+  }
+
+  /**
+   * Pauses the timeline and goes back to the start of the animation.
+   */
+  public stop () {
+    this.pause()
+    this.seek(0)
+  }
+
+  /**
+   * Goes to the specified time, without changing the playing state.
+   * @param time the time from the start of the animation
+   */
+  public seek (time: number) {
+    this.update(time)
+    if (this.origin) {
+      this.origin.clockTime = this.now()
+      this.origin.time = this.time
+    }
+  }
+
+  /**
+   * Reverses the playing direction. A playing timeline keeps playing in the
+   * new direction.
+   */
+  public reverse () {
+    const playing = this.isPlaying()
+    this.pause()
+    this.direction = this.direction > 0? -1: 1
+    if (playing)
+      this.play()
+  }
+
+  /**
+   * Tests whether the timeline is playing.
+   * @returns `true` if the timeline is playing, `false` otherwise
+   */
+  public isPlaying () {
+    return this.unsubscribe !== undefined
+  }
+
+  /**
+   * Returns the current time of the timeline.
+   * @returns the time from the start of the animation
+   */
+  public getTime () {
+    return this.time
+  }
+
+  private now () {
+    return this.clock? this.clock.now(): getAnimationTime()
+  }
+
+  private update (time: number) {
+    this.time = Math.max(0, Math.min(time, this.animation.duration))
+    this.animation.apply(this.time)
+  }
+}
+
+/**
+ * Hook that creates a timeline for an animation, paused on unmount or when
+ * the animation changes. Animations should be memoized. The timeline uses the
+ * clock of the current subtree (see {@link useClock}).
+ * @param animation the animation to play
+ * @param autoplay set this to true to play the animation on mount
+ * @returns the timeline
+ */
+export const useTimeline = (
+  animation: TimelineAnimation,
+  autoplay = false
+): Timeline => {
+  const clock = useClock()
+  const timeline = useMemo(
+    () => new Timeline(animation, clock),
+    [animation, clock]
+  )
+  useEffect(() => {
+    if (autoplay)
+      timeline.play()
+    return () => timeline.pause()
+  }, [timeline])
+  return timeline
+}
@@ -1,6 +1,8 @@
 import { useEffect, useMemo, useReducer, useRef } from "react"
 import { create, StoreApi } from "zustand"
 
+import { error as logError } from "../logging/Log"
+
 
 class UndefinedValueType {}
 const UNDEFINED_VALUE = new UndefinedValueType()
@@ -62,11 +64,71 @@ export const isResourceHandle =
   (object: any) => object instanceof ResourceHandle
 
 interface InvalidateSignalStore { send (): void }
-interface ReadyStateSignalStore { ready: boolean; send (ready: boolean): void }
+interface ReadyStateSignalStore {
+  ready: boolean
+  failed: boolean
+  send (ready: boolean, failed: boolean): void
+}
+
+/**
+ * Represents a function which tests whether two values are equal.
+ * @template T the value type
+ */
+export type EqualityFunction<T> = (a: T, b: T) => boolean
+
+/**
+ * Describes the state of a volatile and its position in the volatile graph.
+ * Dependents and computation statistics are only collected in debug builds.
+ */
+export interface VolatileInspection {
+  name?: string
+  type: string
+  ready: boolean
+  error: unknown
+  version: number
+  sources: Array<Volatile<any>>
+  dependents: Array<Volatile<any>>
+  auxiliaries: Array<Volatile<void>>
+  recomputeCount: number
+  lastComputeTime?: number
+}
 
 type ListenerCallback<Store> = (store: Store) => void
 type UnsubscribeCallback = () => void
 
+type ComputationObserver =
+  (volatile: Volatile<any>, start: number, duration: number) => void
+
+/**
+ * Function called after a root volatile value is set (or unset, in which case
+ * the value is `undefined`).
+ * @template T the value type
+ */
+export type RootVolatileObserver<T> = (value: T | undefined) => void
+
+let computationObserver: ComputationObserver | undefined = undefined
+
+/**
+ * Used for internal purposes. Registers a function which is called after each
+ * computation of a derivated volatile, in debug builds only.
+ * @param observer the function receiving the volatile and compute timings
+ * @returns a callback function to unregister the observer
+ */
+export const observeVolatileComputations = (observer: ComputationObserver) => {
+  computationObserver = observer
+  return () => {
+    if (computationObserver === observer)
+      computationObserver = undefined
+  }
+}
+
+// Holds the notifications deferred by the current batch, if any.
+const batchState = {
+  depth: 0,
+  readyStateChanges: new Set<Volatile<any>>(),
+  invalidations: new Set<Volatile<any>>()
+}
+
 /**
  * Represents a value or resource whose identity remains stable accross renders
  * and can be used as the source of other derivated values.
@@ -85,6 +147,117 @@ export abstract class Volatile<T> {
     return new MergedVolatiles<U>(...volatiles)
   }
 
+  /**
+   * Runs `callback` in a batch. Ready state change and invalidation
+   * notifications are deferred until the outermost batch closes, then each
+   * volatile notifies its dependents at most once. Derivated volatiles thus
+   * never observe a partially applied update.
+   * @template R the callback return type
+   * @param callback the function that updates volatiles
+   * @returns the value returned by `callback`
+   */
+  static batch <R> (callback: () => R): R {
+    batchState.depth++
+    try {
+      return callback()
+    } finally {
+      batchState.depth--
+      if (!batchState.depth)
+        Volatile.flushBatch()
+    }
+  }
+
+  // Notifications triggered while flushing are deferred as well, so that a
+  // volatile with several changed sources notifies its dependents once.
+  private static flushBatch () {
+    batchState.depth++
+    try {
+      while (
+        batchState.readyStateChanges.size || batchState.invalidations.size
+      ) {
+        const { readyStateChanges, invalidations } = batchState
+        batchState.readyStateChanges = new Set()
+        batchState.invalidations = new Set()
+        readyStateChanges.forEach((volatile) => {
+          // Skips volatiles whose state went back to the previous one
+          const signal = volatile.readyStateSignal.getState()
+          const ready = volatile.ready()
+          const failed = volatile.failed()
+          if (ready !== signal.ready || failed !== signal.failed)
+            signal.send(ready, failed)
+        })
+        invalidations.forEach(
+          (volatile) => volatile.invalidateSignal.getState().send()
+        )
+      }
+    } finally {
+      batchState.depth--
+    }
+  }
+
+  /**
+   * Creates a volatile whose value is computed from several source volatiles.
+   * Unlike `useDerivatedVolatile`, this function can be used outside of React
+   * components; the returned volatile must be disposed of explicitly.
+   * @template T the derivated volatile value type
+   * @template U the source volatile value types
+   * @param volatiles the array of source volatiles
+   * @param compute the function that computes the derivated volatile value
+   * @param equals an optional equality function (see `useDerivatedVolatile`)
+   * @returns a disposable derivated volatile
+   */
+  static combine <T, U extends readonly unknown[]> (
+    volatiles: { [K in keyof U]: Volatile<U[K]> },
+    compute: (...values: U) => T,
+    equals?: EqualityFunction<T>
+  ): DisposableVolatile<T> {
+    return initialized(new CombinedVolatile<T, U>(volatiles, compute, equals))
+  }
+
+  /**
+   * Creates a volatile whose value is computed from this volatile. The
+   * returned volatile must be disposed of explicitly.
+   * @template U the derivated volatile value type
+   * @param compute the function that computes the derivated volatile value
+   * @param equals an optional equality function (see `useDerivatedVolatile`)
+   * @returns a disposable derivated volatile
+   */
+  public map <U, S = T> (
+    this: Volatile<S>,
+    compute: (value: S) => U,
+    equals?: EqualityFunction<U>
+  ): DisposableVolatile<U> {
+    return initialized(new DerivatedVolatile<U, S>(this, compute, equals))
+  }
+
+  /**
+   * Creates a volatile which holds the last value of this volatile that
+   * satisfied `predicate`. It is not ready until such a value was observed.
+   * The returned volatile must be disposed of explicitly.
+   * @param predicate the function that tests each new value
+   * @returns a disposable filtered volatile
+   */
+  public filter <S = T> (
+    this: Volatile<S>,
+    predicate: (value: S) => boolean
+  ): DisposableVolatile<S> {
+    return initialized(new FilteredVolatile<S>(this, predicate))
+  }
+
+  /**
+   * Creates a volatile which only takes a new value from this volatile when it
+   * differs from the previous one, which keeps its identity otherwise. The
+   * returned volatile must be disposed of explicitly.
+   * @param equals an optional equality function (strict equality by default)
+   * @returns a disposable filtered volatile
+   */
+  public distinct <S = T> (
+    this: Volatile<S>,
+    equals: (a: S, b: S) => boolean = (a, b) => a === b
+  ): DisposableVolatile<S> {
+    return initialized(new FilteredVolatile<S>(this, () => true, equals))
+  }
+
   /**
    * Tests whether the volatile value is ready for use.
    * @returns true if the volatile is ready, false otherwise
@@ -98,14 +271,36 @@ export abstract class Volatile<T> {
    */
   abstract current (): T | UndefinedValueType
 
+  /**
+   * Returns the error which prevents the volatile from being ready, if any.
+   * Errors are thrown by the computation of the volatile or of one of its
+   * sources.
+   * @returns the error or `undefined`
+   */
+  public getError (): unknown {
+    return undefined
+  }
+
   private readonly invalidateSignal: StoreApi<InvalidateSignalStore>
   private readonly readyStateSignal: StoreApi<ReadyStateSignalStore>
+  protected version: number
+  protected name?: string
+  protected recomputeCount: number
+  protected lastComputeTime?: number
+  private dependents?: Set<Volatile<any>>
 
   constructor () {
+    this.version = 0
+    this.name = undefined
+    this.recomputeCount = 0
+    this.lastComputeTime = undefined
+    this.dependents = undefined
     this.invalidateSignal = create((set) => ({ send: () => set({ }) }))
-    this.readyStateSignal = create(
-      (set) => ({ ready: false, send: (ready) => set({ ready }) })
-    )
+    this.readyStateSignal = create((set) => ({
+      ready: false,
+      failed: false,
+      send: (ready, failed) => set({ ready, failed })
+    }))
   }
 
   /**
@@ -117,8 +312,21 @@ export abstract class Volatile<T> {
     return this.readyStateSignal.subscribe(callback)
   }
 
-  protected signalReadyStateChange () {
-    this.readyStateSignal.getState().send(this.ready())
+  protected signalReadyStateChange (): void {
+    if (batchState.depth)
+      return void batchState.readyStateChanges.add(this)
+    this.readyStateSignal.getState().send(this.ready(), this.failed())
+  }
+
+  // Notifies dependents when the error state changed while the readiness did
+  // not, e.g. when a volatile which was not ready yet fails.
+  protected signalErrorStateChange () {
+    if (this.readyStateSignal.getState().failed !== this.failed())
+      this.signalReadyStateChange()
+  }
+
+  private failed () {
+    return this.getError() !== undefined
   }
 
   /**
@@ -130,16 +338,98 @@ export abstract class Volatile<T> {
     return this.invalidateSignal.subscribe(callback)
   }
 
-  protected signalInvalidation () {
+  protected signalInvalidation (): void {
+    if (!this.tracksVersion())
+      this.version++
+    if (batchState.depth)
+      return void batchState.invalidations.add(this)
     this.invalidateSignal.getState().send()
   }
 
+  /**
+   * Used for internal purposes. The version is incremented each time the
+   * volatile value actually changes.
+   */
+  public getVersion (): number {
+    return this.version
+  }
+
+  // Dependents only recompute when the version of a source changed. Subclasses
+  // which increment the version themselves on each actual change return true,
+  // so that invalidations leaving the value unchanged are skipped; otherwise
+  // the version is incremented on each invalidation.
+  protected tracksVersion (): boolean {
+    return false
+  }
+
   /**
    * Used for internal purposes.
    */
   public getAuxiliaries (): Set<Volatile<void>> {
     return new Set()
   }
+
+  /**
+   * Sets a name used to identify the volatile when debugging.
+   * @param name the debug name
+   * @returns the volatile
+   */
+  public setName (name: string): this {
+    this.name = name
+    return this
+  }
+
+  /**
+   * Returns the debug name of the volatile, if any.
+   * @returns the debug name or `undefined`
+   */
+  public getName (): string | undefined {
+    return this.name
+  }
+
+  /**
+   * Used for internal purposes.
+   */
+  public addDependent (dependent: Volatile<any>) {
+    __DEBUG_STATEMENT__: {
+      if (!this.dependents)
+        this.dependents = new Set()
+      this.dependents.add(dependent)
+    }
+  }
+
+  /**
+   * Used for internal purposes.
+   */
+  public removeDependent (dependent: Volatile<any>) {
+    __DEBUG_STATEMENT__: {
+      this.dependents?.delete(dependent)
+    }
+  }
+
+  /**
+   * Returns a description of the volatile state and of its neighbours in the
+   * volatile graph, for debugging purposes.
+   * @returns the volatile inspection object
+   */
+  public inspect (): VolatileInspection {
+    return {
+      name: this.name,
+      type: this.constructor.name,
+      ready: this.ready(),
+      error: this.getError(),
+      version: this.version,
+      sources: this.getSources(),
+      dependents: [...this.dependents ?? []],
+      auxiliaries: [...this.getAuxiliaries()],
+      recomputeCount: this.recomputeCount,
+      lastComputeTime: this.lastComputeTime
+    }
+  }
+
+  protected getSources (): Array<Volatile<any>> {
+    return []
+  }
 }
 
 /**
@@ -151,17 +441,36 @@ export type ValueType<Type> = Type extends Volatile<infer T>? T: never
 export class RootVolatile<T> extends Volatile<T> {
   private value: T | UndefinedValueType
   private auxiliary?: Volatile<void>
+  private readonly equals?: EqualityFunction<T>
+  private observers?: Set<RootVolatileObserver<T>>
 
-  constructor (value: T | typeof UNDEFINED_VALUE = UNDEFINED_VALUE) {
+  /**
+   * Creates a root volatile.
+   * @param value an optional initial value
+   * @param equals an optional equality function; setting a value equal to the
+   * current one is then ignored and does not invalidate dependents
+   */
+  constructor (
+    value: T | typeof UNDEFINED_VALUE = UNDEFINED_VALUE,
+    equals?: EqualityFunction<T>
+  ) {
     super()
     this.value = value
     this.auxiliary = undefined
+    this.equals = equals
+    // Records the initial state, against which batches compare the final one
+    if (this.ready())
+      this.signalReadyStateChange()
   }
 
   public ready () {
     return this.current() !== UNDEFINED_VALUE
   }
 
+  protected tracksVersion () {
+    return true
+  }
+
   public current (): T | UndefinedValueType {
     return this.value
   }
@@ -169,20 +478,33 @@ export class RootVolatile<T> extends Volatile<T> {
   /**
    * Sets the volatile value and its readiness to true. If the previous value
    * is a resource handle, detaches from it. If the new value is a resource
-   * handle, attaches to it.
+   * handle, attaches to it. If the volatile has an equality function and the
+   * new value equals the current one, this function does nothing.
    * @template T the value type
    * @param value the value to set
    */
   public set (value: T | UndefinedValueType): void {
+    if (
+      this.equals
+        && this.value !== UNDEFINED_VALUE
+        && value !== UNDEFINED_VALUE
+        && this.equals(this.value as T, value as T)
+    )
+      return
     const previousReady = this.ready()
     if (isResourceHandle(this.value))
       this.value.detach()
     this.value = value
     if (isResourceHandle(this.value))
       this.value.attach()
+    this.version++
     if (previousReady !== this.ready())
       this.signalReadyStateChange()
     this.signalInvalidation()
+    if (this.observers?.size) {
+      const observed = value === UNDEFINED_VALUE? undefined: value as T
+      this.observers.forEach((observer) => observer(observed))
+    }
   }
 
   /**
@@ -192,6 +514,19 @@ export class RootVolatile<T> extends Volatile<T> {
     this.set(UNDEFINED_VALUE)
   }
 
+  /**
+   * Registers a function called synchronously after each effective `set` or
+   * `unset` of this volatile, with the new value (or `undefined` if unset).
+   * @param observer the observer function
+   * @returns a callback function to unregister the observer
+   */
+  public observe (observer: RootVolatileObserver<T>): () => void {
+    if (!this.observers)
+      this.observers = new Set()
+    this.observers.add(observer)
+    return () => this.observers?.delete(observer)
+  }
+
   /**
    * Used for internal purposes.
    */
@@ -204,7 +539,18 @@ export class RootVolatile<T> extends Volatile<T> {
   }
 }
 
-type SourceArray<T> = { [K in keyof T]: Volatile<T[K]> }
+/**
+ * Maps a tuple of value types to the tuple of their volatiles.
+ * @template T the tuple of value types
+ */
+export type SourceArray<T> = { [K in keyof T]: Volatile<T[K]> }
+
+/**
+ * Represents a volatile whose lifecycle is managed by its owner, which must
+ * call `dispose` once the volatile is not needed anymore.
+ * @template T the value type
+ */
+export type DisposableVolatile<T> = Volatile<T> & { dispose (): void }
 
 abstract class DerivatedVolatileBase<T, S extends readonly unknown[]>
 extends Volatile<T> {
@@ -214,22 +560,39 @@ extends Volatile<T> {
   protected unsubscribeReadyStateChanges?: Array<UnsubscribeCallback>
   protected invalidated: boolean
   protected unsubscribeInvalidations?: Array<UnsubscribeCallback>
+  protected value: T | UndefinedValueType
+  protected readonly equals?: EqualityFunction<T>
+  private sourceVersions: Array<number>
+  private computeError?: { error: unknown }
 
-  constructor (...sources: SourceArray<S>) {
+  constructor (sources: SourceArray<S>, equals?: EqualityFunction<T>) {
     super()
     this.sources = sources
     this.initialized = false
     this.readySet = false
     this.unsubscribeReadyStateChanges = undefined
     this.invalidated = false
+    this.value = UNDEFINED_VALUE
+    this.equals = equals
+    this.sourceVersions = []
+    this.computeError = undefined
   }
 
+  /**
+   * Computes the volatile value from its up-to-date sources. Returning
+   * `UNDEFINED_VALUE` keeps the current value.
+   */
+  protected abstract computeValue (): T | UndefinedValueType
+
   private initialize (...sources: SourceArray<S>) {
     sources.forEach(
       (source) =>
         source instanceof DerivatedVolatileBase
           && source.ensureInitialized()
     )
+    __DEBUG_STATEMENT__: {
+      sources.forEach((source) => source.addDependent(this))
+    }
     const computeReadyFromSources =
       () => !!(sources.length)
         && sources.find((source) => !source.ready()) === undefined
@@ -248,6 +611,9 @@ extends Volatile<T> {
           this.readySet = computeReadyFromSources()
           if (this.readySet)
             this.signalReadyStateChange()
+        } else if (!ready) {
+          // The source may have failed or recovered while not being ready
+          this.signalErrorStateChange()
         }
       })
     )
@@ -256,6 +622,10 @@ extends Volatile<T> {
       (source) => source.subscribeInvalidation(() => {
         const previousInvalidated = this.invalidated
         this.invalidated = true
+        // A failed volatile is not ready, hence not pulled by its dependents:
+        // it is retried here so that they get ready again once it recovers
+        if (this.computeError)
+          this.current()
         if (!previousInvalidated)
           this.signalInvalidation()
       })
@@ -273,47 +643,145 @@ extends Volatile<T> {
   public dispose () {
     this.unsubscribeInvalidations?.forEach((unsubscribe) => unsubscribe())
     this.unsubscribeReadyStateChanges?.forEach((unsubscribe) => unsubscribe())
+    __DEBUG_STATEMENT__: {
+      this.sources.forEach((source) => source.removeDependent(this))
+    }
+    if (isResourceHandle(this.value))
+      (this.value as ResourceHandle<unknown>).detach()
+    this.value = UNDEFINED_VALUE
+    this.sourceVersions = []
+    this.computeError = undefined
     this.initialized = false
   }
 
   public ready () {
-    return this.readySet
+    return this.readySet && !this.computeError
+  }
+
+  protected tracksVersion () {
+    return true
+  }
+
+  public getError (): unknown {
+    if (this.computeError)
+      return this.computeError.error
+    for (const source of this.sources) {
+      const error = source.getError()
+      if (error !== undefined)
+        return error
+    }
+    return undefined
+  }
+
+  public current (): T | UndefinedValueType {
+    // A volatile whose computation failed is not ready, but is recomputed as
+    // soon as its sources change
+    if (this.invalidated && this.readySet) {
+      const changed = this.updateSources()
+      // Sources may have failed while being brought up to date; this volatile
+      // stays invalidated until they recover
+      if (this.readySet) {
+        this.invalidated = false
+        if (changed)
+          this.recompute()
+      }
+    }
+    return this.resolvedValue()
+  }
+
+  // Brings the sources up to date and tests whether any of them changed since
+  // the last call. An invalidated volatile whose sources did not change (e.g.
+  // because they recomputed an equal value) does not need to recompute.
+  private updateSources (): boolean {
+    let changed = false
+    this.sources.forEach((source, i) => {
+      source.current()
+      if (this.sourceVersions[i] !== source.getVersion()) {
+        this.sourceVersions[i] = source.getVersion()
+        changed = true
+      }
+    })
+    return changed
+  }
+
+  // Computes the value and catches errors so that a failing computation only
+  // affects this volatile and its dependents.
+  private recompute () {
+    const previousError = this.computeError
+    __DEBUG_STATEMENT__: {
+      this.recomputeCount++
+      this.lastComputeTime = performance.now()
+    }
+    try {
+      const value = this.computeValue()
+      this.computeError = undefined
+      if (value !== UNDEFINED_VALUE)
+        this.commit(value as T)
+    } catch (error) {
+      logError(`Volatile computation failed: ${error}`)
+      if (isResourceHandle(this.value))
+        (this.value as ResourceHandle<unknown>).detach()
+      this.value = UNDEFINED_VALUE
+      this.version++
+      this.computeError = { error }
+    }
+    __DEBUG_STATEMENT__: {
+      computationObserver?.(
+        this,
+        this.lastComputeTime!,
+        performance.now() - this.lastComputeTime!
+      )
+    }
+    if (!previousError !== !this.computeError)
+      this.signalReadyStateChange()
+  }
+
+  // Stores a newly computed value, unless it equals the current one in which
+  // case the version is kept so that dependents skip their own computation.
+  protected commit (value: T) {
+    if (
+      this.equals
+        && this.value !== UNDEFINED_VALUE
+        && this.equals(this.value as T, value)
+    )
+      return
+    if (isResourceHandle(value))
+      (value as ResourceHandle<unknown>).attach()
+    if (isResourceHandle(this.value))
+      (this.value as ResourceHandle<unknown>).detach()
+    this.value = value
+    this.version++
+  }
+
+  protected getSources (): Array<Volatile<any>> {
+    return [...this.sources]
+  }
+
+  protected resolvedValue (): T | UndefinedValueType {
+    return isResourceHandle(this.value)
+      ? (this.value as ResourceHandle<T>).resource
+      : this.value
   }
 }
 
 class DerivatedVolatile<T, S> extends DerivatedVolatileBase<T, [S]> {
   private readonly source: Volatile<S>
-  private value: T | UndefinedValueType
   private auxiliaries?: Set<Volatile<void>>
   private compute: (value: S) => T
 
-  constructor (source: Volatile<S>, compute: (value: S) => T) {
-    super(source)
+  constructor (
+    source: Volatile<S>,
+    compute: (value: S) => T,
+    equals?: EqualityFunction<T>
+  ) {
+    super([source], equals)
     this.source = source
     this.compute = compute
-    this.value = UNDEFINED_VALUE
     this.auxiliaries = undefined
   }
 
-  public current (): T | UndefinedValueType {
-    if (this.invalidated && this.ready()) {
-      const newValue = this.compute(this.source.current() as S)
-      if (isResourceHandle(this.value))
-        this.value.detach()
-      this.value = newValue
-      if (isResourceHandle(this.value))
-        this.value.attach()
-      this.invalidated = false
-    }
-    return isResourceHandle(this.value)? this.value.resource: this.value
-  }
-
-  public dispose () {
-    if (isResourceHandle(this.value)) {
-      this.value.detach()
-      this.value = UNDEFINED_VALUE
-    }
-    super.dispose()
+  protected computeValue () {
+    return this.compute(this.source.current() as S)
   }
 
   public getAuxiliaries () {
@@ -327,38 +795,132 @@ class DerivatedVolatile<T, S> extends DerivatedVolatileBase<T, [S]> {
   }
 }
 
+const collectAuxiliaries = (sources: ReadonlyArray<Volatile<unknown>>) => {
+  const auxiliaries = new Set<Volatile<void>>()
+  sources.forEach(
+    (source) => source.getAuxiliaries().forEach(
+      (auxiliary) => auxiliaries.add(auxiliary)
+    )
+  )
+  return auxiliaries
+}
+
 class MergedVolatiles<S extends readonly unknown[]>
 extends DerivatedVolatileBase<S, S> {
-  private value: S | UndefinedValueType
   private auxiliaries?: Set<Volatile<void>>
 
   constructor (...sources: SourceArray<S>) {
-    super(...sources)
+    super(sources)
     this.auxiliaries = undefined
-    this.value = UNDEFINED_VALUE
   }
 
-  public current (): S | UndefinedValueType {
-    if (this.invalidated && this.ready()) {
-      this.value = this.sources.map((source) => source.current())
-      this.invalidated = false
-    }
-    return this.value
+  protected computeValue () {
+    return this.sources.map((source) => source.current()) as unknown as S
   }
 
   public getAuxiliaries() {
-    if (this.auxiliaries === undefined) {
-      this.auxiliaries = new Set()
-      this.sources.forEach(
-        (source) => source.getAuxiliaries().forEach(
-          (auxiliary) => this.auxiliaries!.add(auxiliary)
-        )
-      )
-    }
+    if (this.auxiliaries === undefined)
+      this.auxiliaries = collectAuxiliaries(this.sources)
+    return this.auxiliaries
+  }
+}
+
+class CombinedVolatile<T, S extends readonly unknown[]>
+extends DerivatedVolatileBase<T, S> {
+  private auxiliaries?: Set<Volatile<void>>
+  private readonly compute: (...values: S) => T
+
+  constructor (
+    sources: SourceArray<S>,
+    compute: (...values: S) => T,
+    equals?: EqualityFunction<T>
+  ) {
+    super(sources, equals)
+    this.compute = compute
+    this.auxiliaries = undefined
+  }
+
+  protected computeValue () {
+    const values = this.sources.map((source) => source.current())
+    return this.compute(...values as unknown as S)
+  }
+
+  public getAuxiliaries () {
+    if (this.auxiliaries === undefined)
+      this.auxiliaries = collectAuxiliaries(this.sources)
     return this.auxiliaries
   }
 }
 
+// Holds the last source value that satisfied `predicate`. Whether a value is
+// accepted can only be known by computing it, so until a first value was
+// accepted, source values are pulled as soon as they change; readiness then
+// only reflects the values accepted so far.
+class FilteredVolatile<T> extends DerivatedVolatileBase<T, [T]> {
+  private readonly source: Volatile<T>
+  private readonly predicate: (value: T) => boolean
+
+  constructor (
+    source: Volatile<T>,
+    predicate: (value: T) => boolean,
+    equals?: EqualityFunction<T>
+  ) {
+    super([source], equals)
+    this.source = source
+    this.predicate = predicate
+  }
+
+  public ready () {
+    return super.ready() && this.value !== UNDEFINED_VALUE
+  }
+
+  public ensureInitialized () {
+    super.ensureInitialized()
+    this.settle()
+  }
+
+  protected signalReadyStateChange (): void {
+    this.settle()
+    super.signalReadyStateChange()
+  }
+
+  protected signalInvalidation (): void {
+    this.settle()
+    super.signalInvalidation()
+  }
+
+  // Pulls the source value while no value was accepted, since readiness
+  // depends on it.
+  private settle () {
+    if (this.initialized && this.value === UNDEFINED_VALUE)
+      this.current()
+  }
+
+  protected computeValue () {
+    const value = this.source.current() as T
+    return this.predicate(value)? value: UNDEFINED_VALUE
+  }
+
+  protected commit (value: T) {
+    const previouslyReady = this.value !== UNDEFINED_VALUE
+    super.commit(value)
+    if (!previouslyReady)
+      this.signalReadyStateChange()
+  }
+
+  public getAuxiliaries () {
+    return this.source.getAuxiliaries()
+  }
+}
+
+// Initializes a derivated volatile created outside of a hook.
+const initialized = <V extends { ensureInitialized (): void }> (
+  volatile: V
+) => {
+  volatile.ensureInitialized()
+  return volatile
+}
+
 /**
  * Tests whether the given object is any kind of volatile - source, derivated,
  * or merged.
@@ -423,6 +985,40 @@ export function get (object: any, defaultValue: any = UNDEFINED_VALUE) {
     : object.current()
 }
 
+const readyPromises = new WeakMap<Volatile<any>, Promise<void>>()
+
+/**
+ * Returns a promise which is resolved once the specified volatile is ready, or
+ * rejected with its error if it fails. While the volatile is pending, the same
+ * promise is returned, so that it can be thrown to a React `Suspense` boundary.
+ * @param volatile the volatile to wait for
+ * @returns the promise
+ */
+export const whenReady = (volatile: Volatile<any>): Promise<void> => {
+  if (volatile.ready())
+    return Promise.resolve()
+  if (volatile.getError() !== undefined)
+    return Promise.reject(volatile.getError())
+  let promise = readyPromises.get(volatile)
+  if (!promise) {
+    promise = new Promise<void>((resolve, reject) => {
+      const unsubscribe = volatile.subscribeReadyStateChange(() => {
+        const error = volatile.getError()
+        if (!volatile.ready() && error === undefined)
+          return
+        unsubscribe()
+        readyPromises.delete(volatile)
+        if (volatile.ready())
+          resolve()
+        else
+          reject(error)
+      })
+    })
+    readyPromises.set(volatile, promise)
+  }
+  return promise
+}
+
 /**
  * Hook that returns whether the specified volatile is ready for use.
  * @param volatile the volatile to monitor the readiness from
@@ -448,6 +1044,27 @@ export const useVolatileReady = (volatile: Volatile<any>): boolean => {
   return ready
 }
 
+/**
+ * Hook that returns the error which prevents the specified volatile from being
+ * ready, if any.
+ * @param volatile the volatile to monitor the error state from
+ * @returns the error or `undefined`
+ */
+export const useVolatileError = (volatile: Volatile<any>): unknown => {
+  const [, updateState] = useReducer((x: number) => x + 1, 0)
+  const error = volatile.getError()
+  useEffect(() => {
+    if (volatile.getError() !== error)
+      updateState()
+    const unsubscribe = volatile.subscribeReadyStateChange(() => {
+      if (volatile.getError() !== error)
+        updateState()
+    })
+    return () => unsubscribe()
+  }, [volatile, error])
+  return error
+}
+
 /**
  * Represents the union of a value type and its volatile.
  * @template T the value type
@@ -460,15 +1077,21 @@ export type PotentialVolatile<T> = T | Volatile<T>
  * volatile, it is simply returned and the set/unset logic is skipped.
  * @template T the value type
  * @param initial the initial value (optional)
+ * @param equals an optional equality function (see {@link RootVolatile})
+ * @param name an optional debug name (see {@link Volatile.inspect})
  * @returns the instantiated volatile
  */
 export const useVolatile = <T> (
-  initial: PotentialVolatile<T> | UndefinedValueType = UNDEFINED_VALUE
+  initial: PotentialVolatile<T> | UndefinedValueType = UNDEFINED_VALUE,
+  equals?: EqualityFunction<T>,
+  name?: string
 ): RootVolatile<T> => {
   const initialIsVolatile = isVolatile(initial)
   const volatile = useRef(
-    initialIsVolatile? initial: new RootVolatile()
+    initialIsVolatile? initial: new RootVolatile(UNDEFINED_VALUE, equals)
   ).current as RootVolatile<T>
+  if (name !== undefined && !initialIsVolatile)
+    volatile.setName(name)
 
   useEffect(() => {
     if (initialIsVolatile)
@@ -491,13 +1114,18 @@ export const useVolatile = <T> (
  * @param compute the function that computes the derivated volatile value
  * @param deps an optional dependency array
  * @param stable identity stays the same if compute changes (`false` by default)
+ * @param equals an optional equality function; when a computed value equals
+ * the previous one, dependents are not recomputed
+ * @param name an optional debug name (see {@link Volatile.inspect})
  * @returns 
  */
 export function useDerivatedVolatile<T, S> (
   volatile: Volatile<S>,
   compute: (source: S) => T,
   deps?: any[],
-  stable?: boolean
+  stable?: boolean,
+  equals?: EqualityFunction<T>,
+  name?: string
 ): DerivatedVolatile<T, S>
 /**
  * Hook that creates a volatile whose value is derivated from several other
@@ -509,20 +1137,27 @@ export function useDerivatedVolatile<T, S> (
  * @param compute the function that computes the derivated volatile value
  * @param deps an optional dependency array
  * @param stable identity stays the same if compute changes (`false` by default)
+ * @param equals an optional equality function; when a computed value equals
+ * the previous one, dependents are not recomputed
+ * @param name an optional debug name (see {@link Volatile.inspect})
  * @returns 
  */
 export function useDerivatedVolatile<T, S extends readonly unknown[]> (
   volatileArray: SourceArray<S>,
   compute: (...sources: S) => T,
   deps?: any[],
-  stable?: boolean
+  stable?: boolean,
+  equals?: EqualityFunction<T>,
+  name?: string
 ): DerivatedVolatile<T, S>
 
 export function useDerivatedVolatile<T, S> (
   volatileOrArray: any,
   compute: (...a: any[]) => T,
   deps: any[] = [],
-  stable: boolean = false
+  stable: boolean = false,
+  equals?: EqualityFunction<T>,
+  name?: string
 ): DerivatedVolatile<T, S> {
   const volatile = useMemo(
     () => 
@@ -541,10 +1176,12 @@ export function useDerivatedVolatile<T, S> (
     [volatile, ...deps]
   )
   const derivatedVolatile = useMemo(
-    () => new DerivatedVolatile(volatile, computeWrapper),
+    () => new DerivatedVolatile(volatile, computeWrapper, equals),
     stable? [volatile]: [volatile, computeWrapper]
   )
   derivatedVolatile.rebind(computeWrapper)
+  if (name !== undefined)
+    derivatedVolatile.setName(name)
   useEffect(() => {
     derivatedVolatile.ensureInitialized()
     return () => derivatedVolatile.dispose()
@@ -561,11 +1198,13 @@ export function useDerivatedVolatile<T, S> (
  * @param volatile the source volatile
  * @param compute the function that computes the derivated volatile value
  * @param deps an optional dependency array
+ * @param equals an optional equality function (see {@link RootVolatile})
  */
 export function useDelayedDerivatedVolatile<T, S> (
   volatile: Volatile<S>,
   compute: (source: S, callback: (value: T) => void) => void,
-  deps?: any[]
+  deps?: any[],
+  equals?: EqualityFunction<T>
 ): Volatile<T>
 /**
  * Similar to `useDerivatedVolatile` but expects a compute function that returns
@@ -576,17 +1215,20 @@ export function useDelayedDerivatedVolatile<T, S> (
  * @param volatileArray the array of source volatiles
  * @param compute The function that computes the derivated volatile value
  * @param deps An optional dependency array
+ * @param equals An optional equality function (see {@link RootVolatile})
  */
 export function useDelayedDerivatedVolatile<T, S extends readonly unknown[]> (
   volatileArray: SourceArray<S>,
   compute: ((...sources: [...S, (value: T) => void]) => void),
-  deps?: any[]
+  deps?: any[],
+  equals?: EqualityFunction<T>
 ): Volatile<T>
 
 export function useDelayedDerivatedVolatile<T> (
   volatileOrArray: any,
   compute: (...a: any[]) => void,
-  deps: any[] = []
+  deps: any[] = [],
+  equals?: EqualityFunction<T>
 ): Volatile<T> {
   const computeDeps = useMemo(
     () =>
@@ -598,7 +1240,7 @@ export function useDelayedDerivatedVolatile<T> (
       : [volatileOrArray]
   )
   const volatile = useMemo(
-    () => new RootVolatile<T>(),
+    () => new RootVolatile<T>(UNDEFINED_VALUE, equals),
     [...computeDeps, ...deps]
   )
   const auxiliary = useDerivatedVolatile(volatileOrArray, (...a: any[]) => {
@@ -0,0 +1,57 @@
+import { Color, Vector3 } from "three"
+
+
+// Conversion matrices between linear sRGB and OKLab, see
+// https://bottosson.github.io/posts/oklab/
+const linearSRGBToLMS = [
+  [0.4122214708, 0.5363325363, 0.0514459929],
+  [0.2119034982, 0.6806995451, 0.1073969566],
+  [0.0883024619, 0.2817188376, 0.6299787005]
+]
+
+const LMSToOklab = [
+  [0.2104542553, 0.7936177850, -0.0040720468],
+  [1.9779984951, -2.4285922050, 0.4505937099],
+  [0.0259040371, 0.7827717662, -0.8086757660]
+]
+
+const oklabToLMS = [
+  [1, 0.3963377774, 0.2158037573],
+  [1, -0.1055613458, -0.0638541728],
+  [1, -0.0894841775, -1.2914855480]
+]
+
+const LMSToLinearSRGB = [
+  [4.0767416621, -3.3077115913, 0.2309699292],
+  [-1.2684380046, 2.6097574011, -0.3413193965],
+  [-0.0041960863, -0.7034186147, 1.7076147010]
+]
+
+const multiply = (matrix: number[][], [a, b, c]: number[]) =>
+  matrix.map(([x, y, z]) => x * a + y * b + z * c)
+
+/**
+ * Converts a color to the OKLab perceptual color space, in which
+ * interpolations look uniform. Colors are read in the working color space of
+ * three.js, i.e. linear sRGB.
+ * @param color the color to convert
+ * @returns a vector holding the `L`, `a` and `b` components
+ */
+export const colorToOklab = ({ r, g, b }: Color): Vector3 => {
+  const lms = multiply(linearSRGBToLMS, [r, g, b]).map(Math.cbrt)
+  const [L, A, B] = multiply(LMSToOklab, lms)
+  return new Vector3(L, A, B)
+}
+
+/**
+ * Converts an OKLab color to a three.js color (see {@link colorToOklab}).
+ * Components outside of the sRGB gamut are clamped.
+ * @param lab a vector holding the `L`, `a` and `b` components
+ * @returns the color
+ */
+export const oklabToColor = ({ x, y, z }: Vector3): Color => {
+  const lms = multiply(oklabToLMS, [x, y, z]).map((value) => value ** 3)
+  const [r, g, b] = multiply(LMSToLinearSRGB, lms)
+    .map((value) => Math.min(Math.max(value, 0), 1))
+  return new Color(r, g, b)
+}
@@ -0,0 +1,34 @@
+import { Box2, Color, Vector2, Vector3 } from "three"
+
+
+/**
+ * Equality function for volatile {@link Vector2} values.
+ * @param a the first vector
+ * @param b the second vector
+ * @returns `true` if both vectors have the same coordinates
+ */
+export const equalVector2 = (a: Vector2, b: Vector2): boolean => a.equals(b)
+
+/**
+ * Equality function for volatile {@link Vector3} values.
+ * @param a the first vector
+ * @param b the second vector
+ * @returns `true` if both vectors have the same coordinates
+ */
+export const equalVector3 = (a: Vector3, b: Vector3): boolean => a.equals(b)
+
+/**
+ * Equality function for volatile {@link Box2} values.
+ * @param a the first box
+ * @param b the second box
+ * @returns `true` if both boxes have the same bounds
+ */
+export const equalBox2 = (a: Box2, b: Box2): boolean => a.equals(b)
+
+/**
+ * Equality function for volatile {@link Color} values.
+ * @param a the first color
+ * @param b the second color
+ * @returns `true` if both colors have the same components
+ */
+export const equalColor = (a: Color, b: Color): boolean => a.equals(b)
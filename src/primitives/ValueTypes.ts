@@ -1,4 +1,4 @@
-import { Vector3 } from "three"
+import { Euler, EulerOrder, Material, Quaternion, Vector3 } from "three"
 
 import { Vector2ConstructorSingleParameterTypes,
   Vector3ConstructorSingleParameterTypes } from "./Constructors"
@@ -12,3 +12,15 @@ export type Position3ValueType = Vector3ConstructorSingleParameterTypes
 export interface Positionable { position: Vector3 }
 export type Scale3ValueType = Vector3ConstructorSingleParameterTypes
 export interface Scalable { scale: Vector3 }
+export type Rotation3ValueType =
+  | Euler
+  | readonly [x: number, y: number, z: number]
+  | readonly [x: number, y: number, z: number, order: EulerOrder]
+export interface Rotatable { rotation: Euler }
+export type QuaternionValueType =
+  | Quaternion
+  | readonly [x: number, y: number, z: number, w: number]
+export interface Orientable { quaternion: Quaternion }
+export interface Hideable { visible: boolean }
+export interface Orderable { renderOrder: number }
+export interface Translucent { material?: Material | Material[] }
@@ -1,3 +1,5 @@
 export * from "./Constructors"
 export * from "./ValueTypes"
 export * from "./Normalizers"
+export * from "./Equality"
+export * from "./Color"
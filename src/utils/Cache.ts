@@ -1,8 +1,13 @@
 import { CompositeKeyMap } from "./CompositeKeyMap"
 
 
+type CacheListener<V> = {
+  load: (value: V) => void
+  reject: (error: unknown) => void
+}
+
 type CacheEntry<V> = {
-  earlyListeners: Set<((value: V) => void)>
+  earlyListeners: Set<CacheListener<V>>
   result?: V
 }
 
@@ -23,22 +28,31 @@ export class Cache<K, V> {
    * key. If the value does not exist yet, defers the execution of `load` and
    * runs a `callback` function that will compute the value. The `callback`
    * function calls `set` to cache the value or `unset` to delete it from the
-   * cache.  
+   * cache. If the value cannot be computed, it calls `fail`, which deletes it
+   * from the cache and runs the `reject` functions of all the callers waiting
+   * for it.
    * @param compositeKey the composite cache key
    * @param load the function that will be executed when the value is computed
    * @param callback the function that will be run once to compute the value
+   * @param reject an optional function that will be executed if the value
+   * cannot be computed
    */
   runOnce (
     compositeKey: K[],
     load: (value: V) => void,
-    callback: (set: (value: V) => void, unset: () => void) => void
+    callback: (
+      set: (value: V) => void,
+      unset: () => void,
+      fail: (error: unknown) => void
+    ) => void,
+    reject: (error: unknown) => void = () => undefined
   ) {
     const entry = this.map.get(compositeKey)
     if (entry) {
       if (entry.result)
         load(entry.result)
       else
-        entry.earlyListeners.add(load)
+        entry.earlyListeners.add({ load, reject })
       return
     }
     this.map.set(compositeKey, { earlyListeners: new Set(), result: undefined })
@@ -49,9 +63,16 @@ export class Cache<K, V> {
           throw new Error("Cache entry was deleted from the cache illegally")
         entry.result = result
         load(result)
-        entry.earlyListeners.forEach((set) => set(result))
+        entry.earlyListeners.forEach((listener) => listener.load(result))
+        entry.earlyListeners.clear()
       },
-      () => this.map.delete(compositeKey)
+      () => this.map.delete(compositeKey),
+      (error) => {
+        const entry = this.map.get(compositeKey)
+        this.map.delete(compositeKey)
+        reject(error)
+        entry?.earlyListeners.forEach((listener) => listener.reject(error))
+      }
     )
   }
 }
@@ -16,12 +16,12 @@ export const inspectRoot = () => {
     type ExtendedWindow = { [INSPECT_ROOT_KEY]: { [_: string]: any } }
     const extendedWindow = window as unknown as ExtendedWindow
     if (!Object.keys(extendedWindow).includes(INSPECT_ROOT_KEY))
-      extendedWindow[INSPECT_ROOT_KEY] = new Proxy(window, {
-        set(_object, property, _value) {
+      extendedWindow[INSPECT_ROOT_KEY] = new Proxy({}, {
+        set(object, property, value) {
           debug(`New inspectable object created with key '${String(property)}'`)
-          return true
+          return Reflect.set(object, property, value)
         }
-      }) 
+      })
     return extendedWindow[INSPECT_ROOT_KEY]
   }
   return {}
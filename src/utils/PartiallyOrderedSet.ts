@@ -1,5 +1,6 @@
 class PartiallyOrderedSetGraphNode<T> {
   constructor(
+    public index: number,
     public readonly upstream: Set<T> = new Set(),
     public readonly downstream: Set<T> = new Set()
   ) { }
@@ -8,15 +9,30 @@ class PartiallyOrderedSetGraphNode<T> {
 /**
  * Implements a `Set` in which elements can or not be bound by some relationship
  * e.g. `a < b`.
+ *
+ * A topological order of the elements is maintained incrementally (see Pearce
+ * and Kelly, "A Dynamic Topological Sort Algorithm for Directed Acyclic
+ * Graphs"): adding an element or a relationship only reorders the elements
+ * located between the two related ones, if any, and iterating through the set
+ * in order does not require sorting it.
  * @template T the set's elements type
  */
 export class PartiallyOrderedSet<T> {
   private readonly nodes: Map<T, PartiallyOrderedSetGraphNode<T>>
-  private readonly roots: Set<T>
+  // Elements by position in the topological order; deleted elements leave
+  // holes which are removed once they outnumber the elements.
+  private elements: Array<T | undefined>
 
   constructor () {
     this.nodes = new Map()
-    this.roots = new Set()
+    this.elements = []
+  }
+
+  /**
+   * Returns the number of elements in the set.
+   */
+  public get size (): number {
+    return this.nodes.size
   }
 
   /**
@@ -36,8 +52,11 @@ export class PartiallyOrderedSet<T> {
   public add (element: T): this {
     if (this.nodes.has(element))
       return this
-    this.nodes.set(element, new PartiallyOrderedSetGraphNode<T>())
-    this.roots.add(element)
+    this.nodes.set(
+      element,
+      new PartiallyOrderedSetGraphNode<T>(this.elements.length)
+    )
+    this.elements.push(element)
     return this
   }
 
@@ -55,8 +74,10 @@ export class PartiallyOrderedSet<T> {
       for (const upstreamKey of nodeToRemove.upstream)
         this.nodes.get(upstreamKey)!.downstream.delete(element)
       nodeToRemove.upstream.clear()
-      this.roots.delete(element)
+      this.elements[nodeToRemove.index] = undefined
       this.nodes.delete(element)
+      if (this.elements.length > 2 * this.nodes.size + 16)
+        this.compact()
       return true
     }
     return  false
@@ -70,15 +91,29 @@ export class PartiallyOrderedSet<T> {
    * @returns `true` if the relationship was created; `false` otherwise
    */
   public order (a: T, b: T): boolean {
-    if (!this.nodes.has(a) || !this.nodes.has(b))
+    const lower = this.nodes.get(a)
+    const upper = this.nodes.get(b)
+    if (!lower || !upper || a === b)
       return false
-    if (this.hasCycle(a, this.nodes, this.nodes.get(b)!.upstream))
+    if (lower.upstream.has(b))
+      return true
+    if (lower.index > upper.index && !this.reorder(a, b))
       return false
-    if (!this.nodes.has(a))
-      this.nodes.set(a, new PartiallyOrderedSetGraphNode<T>())
-    this.nodes.get(a)!.upstream.add(b)
-    this.nodes.get(b)!.downstream.add(a)
-    this.roots.delete(b)
+    lower.upstream.add(b)
+    upper.downstream.add(a)
+    return true
+  }
+
+  /**
+   * Removes an order relationship between two elements, if any.
+   * @param a the "lower" element
+   * @param b the "upper" element
+   * @returns `true` if the relationship was removed; `false` otherwise
+   */
+  public unorder (a: T, b: T): boolean {
+    if (!this.nodes.get(a)?.upstream.delete(b))
+      return false
+    this.nodes.get(b)!.downstream.delete(a)
     return true
   }
 
@@ -98,37 +133,64 @@ export class PartiallyOrderedSet<T> {
   }
 
   private *iterator () {
-    const intermediateRoots = new Set<T>(this.roots.values())
-    const downstreamCounters = new Map<T, number>()
-    while (intermediateRoots.size) {
-      const element = intermediateRoots.values().next().value!
-      yield element
-      for (const upstreamKey of this.nodes.get(element)!.upstream) {
-        if (!downstreamCounters.has(upstreamKey))
-          downstreamCounters.set(
-            upstreamKey,
-            this.nodes.get(upstreamKey)!.downstream.size
-          )
-        const referenceCount = downstreamCounters.get(upstreamKey)! - 1
-        if (!referenceCount)
-          intermediateRoots.add(upstreamKey)
-        downstreamCounters.set(upstreamKey, referenceCount)
+    for (const element of this.elements)
+      if (element !== undefined)
+        yield element
+  }
+
+  // Restores the topological order before adding the `a < b` relationship,
+  // where `b` is currently located before `a`. Only the elements located
+  // between `b` and `a` which are reachable from either of them are moved.
+  // Returns `false` if the relationship would create a cycle.
+  private reorder (a: T, b: T): boolean {
+    const lowerBound = this.nodes.get(b)!.index
+    const upperBound = this.nodes.get(a)!.index
+    const forward = this.collect(b, "upstream", (index) => index <= upperBound)
+    if (forward.has(a))
+      return false
+    const backward =
+      this.collect(a, "downstream", (index) => index >= lowerBound)
+    const byIndex =
+      (x: T, y: T) => this.nodes.get(x)!.index - this.nodes.get(y)!.index
+    const moved = [
+      ...[...backward].sort(byIndex),
+      ...[...forward].sort(byIndex)
+    ]
+    const indices = moved
+      .map((element) => this.nodes.get(element)!.index)
+      .sort((x, y) => x - y)
+    moved.forEach((element, i) => {
+      this.nodes.get(element)!.index = indices[i]
+      this.elements[indices[i]] = element
+    })
+    return true
+  }
+
+  // Collects the elements reachable from `start` in the specified direction
+  // whose index satisfies `inBounds`.
+  private collect (
+    start: T,
+    direction: "upstream" | "downstream",
+    inBounds: (index: number) => boolean
+  ): Set<T> {
+    const visited = new Set<T>([start])
+    const stack = [start]
+    while (stack.length) {
+      const element = stack.pop()!
+      for (const next of this.nodes.get(element)![direction]) {
+        if (visited.has(next) || !inBounds(this.nodes.get(next)!.index))
+          continue
+        visited.add(next)
+        stack.push(next)
       }
-      intermediateRoots.delete(element)
     }
+    return visited
   }
 
-  private hasCycle (
-    root: T,
-    nodes: Map<T, PartiallyOrderedSetGraphNode<T>>,
-    nodesToVerify: Set<T>
-  ): boolean {
-    if (nodesToVerify.has(root))
-      return true
-    for (const element of nodesToVerify) {
-      if (this.hasCycle(root, nodes, nodes.get(element)!.upstream))
-        return true
-    }
-    return false
+  private compact () {
+    this.elements = this.elements.filter((element) => element !== undefined)
+    this.elements.forEach(
+      (element, index) => this.nodes.get(element!)!.index = index
+    )
   }
 }
@@ -0,0 +1,283 @@
+import { useEffect, useState } from "react"
+
+import { observeVolatileComputations, Volatile } from "../motion/Volatile"
+import { inspectRoot } from "./Debug"
+import { warn } from "../logging/Log"
+
+
+const MAX_FRAMES = 600
+const MAX_TRACE_EVENTS = 100000
+
+/**
+ * Compute statistics of a single volatile. Durations are in milliseconds.
+ */
+export interface VolatileProfileEntry {
+  volatile: Volatile<any>
+  name?: string
+  type: string
+  recomputeCount: number
+  recomputesPerFrame: number
+  totalDuration: number
+  maxDuration: number
+  lastDuration: number
+}
+
+/**
+ * Statistics of a single volatile resolution pass. Durations are in
+ * milliseconds.
+ */
+export interface VolatileProfileFrame {
+  start: number
+  duration: number
+  computeDuration: number
+  recomputeCount: number
+}
+
+/**
+ * Snapshot of the statistics collected by the volatile profiler. Entries are
+ * sorted by decreasing total compute duration.
+ */
+export interface VolatileProfile {
+  frameCount: number
+  frames: VolatileProfileFrame[]
+  volatiles: VolatileProfileEntry[]
+}
+
+type TraceEvent = {
+  name: string
+  cat: string
+  ph: "X"
+  ts: number
+  dur: number
+  pid: number
+  tid: number
+  args?: { [key: string]: unknown }
+}
+
+type MutableEntry = Omit<VolatileProfileEntry, "recomputesPerFrame">
+
+/**
+ * Records the compute cost of volatiles during their resolution by component
+ * volatile registries. Profiling is opt-in and only available in debug builds.
+ */
+export class VolatileProfiler {
+  private enabled: boolean
+  private depth: number
+  private frameCount: number
+  private entries: Map<Volatile<any>, MutableEntry>
+  private frames: VolatileProfileFrame[]
+  private currentFrame?: VolatileProfileFrame
+  private traceEvents: TraceEvent[]
+  private stopObserving?: () => void
+
+  constructor () {
+    this.enabled = false
+    this.depth = 0
+    this.frameCount = 0
+    this.entries = new Map()
+    this.frames = []
+    this.currentFrame = undefined
+    this.traceEvents = []
+    this.stopObserving = undefined
+  }
+
+  /**
+   * Starts profiling, discarding previously collected statistics.
+   */
+  public start () {
+    __DEBUG_STATEMENT__: {
+      if (this.enabled)
+        return
+      this.reset()
+      this.enabled = true
+      this.stopObserving = observeVolatileComputations(
+        (volatile, start, duration) => this.record(volatile, start, duration)
+      )
+      return
+    }
+    warn("Volatile profiling is only available in debug builds")
+  }
+
+  /**
+   * Stops profiling. Collected statistics are kept.
+   */
+  public stop () {
+    this.stopObserving?.()
+    this.stopObserving = undefined
+    this.enabled = false
+  }
+
+  /**
+   * Discards collected statistics.
+   */
+  public reset () {
+    this.frameCount = 0
+    this.entries.clear()
+    this.frames = []
+    this.traceEvents = []
+  }
+
+  /**
+   * Tests whether the profiler is currently recording.
+   * @returns `true` if the profiler is recording, `false` otherwise
+   */
+  public isEnabled () {
+    return this.enabled
+  }
+
+  /**
+   * Used for internal purposes. Runs a volatile resolution pass, recording it
+   * as a frame if the profiler is enabled. Nested passes (e.g. nested
+   * renderers) are accounted for in the outermost frame.
+   * @param resolve the function that resolves volatiles
+   */
+  public frame (resolve: () => void) {
+    if (!this.enabled)
+      return resolve()
+    const start = performance.now()
+    const outermost = !this.depth
+    if (outermost)
+      this.currentFrame = {
+        start,
+        duration: 0,
+        computeDuration: 0,
+        recomputeCount: 0
+      }
+    this.depth++
+    try {
+      resolve()
+    } finally {
+      this.depth--
+      const duration = performance.now() - start
+      this.trace("resolveComponentVolatiles", "frame", start, duration)
+      if (outermost && this.currentFrame) {
+        this.currentFrame.duration = duration
+        this.frames.push(this.currentFrame)
+        if (this.frames.length > MAX_FRAMES)
+          this.frames.shift()
+        this.frameCount++
+        this.currentFrame = undefined
+      }
+    }
+  }
+
+  /**
+   * Returns a snapshot of the collected statistics.
+   * @returns the profile
+   */
+  public getProfile (): VolatileProfile {
+    const frameCount = Math.max(this.frameCount, 1)
+    return {
+      frameCount: this.frameCount,
+      frames: [...this.frames],
+      volatiles: [...this.entries.values()]
+        .map((entry) => ({
+          ...entry,
+          recomputesPerFrame: entry.recomputeCount / frameCount
+        }))
+        .sort((a, b) => b.totalDuration - a.totalDuration)
+    }
+  }
+
+  /**
+   * Returns the collected events in the Chrome trace event format, which can
+   * be loaded in the browser performance tools.
+   * @returns the trace as a JSON string
+   */
+  public exportChromeTrace (): string {
+    return JSON.stringify({
+      traceEvents: this.traceEvents,
+      displayTimeUnit: "ms"
+    })
+  }
+
+  /**
+   * Saves the collected events as a Chrome trace event JSON file.
+   * @param filename the name of the file (optional)
+   */
+  public downloadChromeTrace (filename = "volatiles.trace.json") {
+    const url = URL.createObjectURL(
+      new Blob([this.exportChromeTrace()], { type: "application/json" })
+    )
+    const link = document.createElement("a")
+    link.href = url
+    link.download = filename
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  private record (volatile: Volatile<any>, start: number, duration: number) {
+    if (!this.entries.has(volatile))
+      this.entries.set(volatile, {
+        volatile,
+        name: volatile.getName(),
+        type: volatile.constructor.name,
+        recomputeCount: 0,
+        totalDuration: 0,
+        maxDuration: 0,
+        lastDuration: 0
+      })
+    const entry = this.entries.get(volatile)!
+    entry.name = volatile.getName()
+    entry.recomputeCount++
+    entry.totalDuration += duration
+    entry.maxDuration = Math.max(entry.maxDuration, duration)
+    entry.lastDuration = duration
+    if (this.currentFrame) {
+      this.currentFrame.computeDuration += duration
+      this.currentFrame.recomputeCount++
+    }
+    this.trace(entry.name ?? entry.type, "volatile", start, duration)
+  }
+
+  private trace (
+    name: string,
+    category: string,
+    start: number,
+    duration: number
+  ) {
+    if (this.traceEvents.length >= MAX_TRACE_EVENTS)
+      return
+    this.traceEvents.push({
+      name,
+      cat: category,
+      ph: "X",
+      ts: start * 1000,
+      dur: duration * 1000,
+      pid: 1,
+      tid: 1
+    })
+  }
+}
+
+/**
+ * The volatile profiler used by component volatile registries. In debug
+ * builds, it is also available in {@link inspectRoot} as `volatileProfiler`.
+ */
+export const volatileProfiler = new VolatileProfiler()
+
+__DEBUG_STATEMENT__: {
+  if (typeof window !== "undefined")
+    inspectRoot().volatileProfiler = volatileProfiler
+}
+
+/**
+ * Hook that returns a snapshot of the volatile profiler statistics, refreshed
+ * periodically while the profiler is enabled.
+ * @param refreshInterval the refresh interval in milliseconds (default `1000`)
+ * @returns the latest profile
+ */
+export const useVolatileProfile = (refreshInterval = 1000): VolatileProfile => {
+  const [profile, setProfile] = useState(() => volatileProfiler.getProfile())
+  useEffect(() => {
+    const interval = setInterval(
+      () => {
+        if (volatileProfiler.isEnabled())
+          setProfile(volatileProfiler.getProfile())
+      },
+      refreshInterval
+    )
+    return () => clearInterval(interval)
+  }, [refreshInterval])
+  return profile
+}
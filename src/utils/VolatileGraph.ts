@@ -0,0 +1,108 @@
+import { Volatile } from "../motion/Volatile"
+
+
+/**
+ * Output formats supported by {@link exportVolatileGraph}.
+ */
+export type VolatileGraphFormat = "dot" | "json"
+
+type VolatileGraphNode = {
+  id: number
+  name?: string
+  type: string
+  registered: boolean
+  ready: boolean
+  error?: string
+  version: number
+  recomputeCount: number
+  lastComputeTime?: number
+  sources: number[]
+  auxiliaries: number[]
+}
+
+// Walks the graph upstream from the specified volatiles, following sources
+// and auxiliaries.
+const collectNodes = (volatiles: Iterable<Volatile<any>>) => {
+  const registered = new Set(volatiles)
+  const identifiers = new Map<Volatile<any>, number>()
+  const nodes: VolatileGraphNode[] = []
+  const pending: Array<Volatile<any>> = []
+  const identify = (volatile: Volatile<any>) => {
+    if (!identifiers.has(volatile)) {
+      identifiers.set(volatile, identifiers.size)
+      pending.push(volatile)
+    }
+    return identifiers.get(volatile)!
+  }
+  registered.forEach(identify)
+  while (pending.length) {
+    const volatile = pending.shift()!
+    const inspection = volatile.inspect()
+    nodes.push({
+      id: identifiers.get(volatile)!,
+      name: inspection.name,
+      type: inspection.type,
+      registered: registered.has(volatile),
+      ready: inspection.ready,
+      error: inspection.error === undefined
+        ? undefined
+        : String(inspection.error),
+      version: inspection.version,
+      recomputeCount: inspection.recomputeCount,
+      lastComputeTime: inspection.lastComputeTime,
+      sources: inspection.sources.map(identify),
+      auxiliaries: inspection.auxiliaries.map(identify)
+    })
+  }
+  return nodes.sort((a, b) => a.id - b.id)
+}
+
+const escape = (text: string) => text.replace(/["\\]/g, "\\$&")
+
+const toDot = (nodes: VolatileGraphNode[]) => {
+  const lines = ["digraph volatiles {", "  rankdir=LR;"]
+  for (const node of nodes) {
+    const label = [
+      node.name ?? `#${node.id}`,
+      node.type,
+      `v${node.version}, ${node.recomputeCount} recomputes`,
+      ...node.error? [node.error]: []
+    ].map(escape).join("\\n")
+    const color = node.error? "red": node.ready? "black": "orange"
+    const shape = node.registered? "box": "ellipse"
+    lines.push(
+      `  n${node.id} [label="${label}", shape=${shape}, `
+        + `color=${color}];`
+    )
+  }
+  for (const node of nodes) {
+    node.sources.forEach(
+      (source) => lines.push(`  n${source} -> n${node.id};`)
+    )
+    node.auxiliaries.forEach(
+      (auxiliary) =>
+        lines.push(`  n${auxiliary} -> n${node.id} [style=dashed];`)
+    )
+  }
+  lines.push("}")
+  return lines.join("\n")
+}
+
+/**
+ * Dumps the volatile graph leading to the specified volatiles, e.g. those of a
+ * component volatile registry. Sources are linked with solid edges and
+ * auxiliaries with dashed ones. In DOT output, registered volatiles are boxes;
+ * failed and non-ready ones are drawn in red and orange respectively.
+ * @param volatiles the volatiles to start from
+ * @param format the output format (`"json"` by default)
+ * @returns the graph as a Graphviz DOT or JSON string
+ */
+export const exportVolatileGraph = (
+  volatiles: Iterable<Volatile<any>>,
+  format: VolatileGraphFormat = "json"
+): string => {
+  const nodes = collectNodes(volatiles)
+  if (format === "dot")
+    return toDot(nodes)
+  return JSON.stringify({ nodes }, null, 2)
+}
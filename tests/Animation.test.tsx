@@ -0,0 +1,116 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import React from "react"
+import { Color, ColorRepresentation, Vector3 } from "three"
+
+import { ThemeConfiguration, ThemeProvider } from "../src/configuration/Theme"
+import {
+  ClockProvider,
+  useAnimatedColor,
+  useAnimatedNumber,
+  useAnimatedPosition
+} from "../src/motion/Animation"
+import { ManualClock } from "../src/motion/Clock"
+import { get, RootVolatile, Volatile } from "../src/motion/Volatile"
+import { mount } from "./Helpers"
+
+
+// Linear motion at 100 units per second
+const theme = {
+  animation: { model: "linear", speed: 100, policy: "full" }
+} as ThemeConfiguration
+
+// Mounts an animation hook under a manual clock, without renderer nor
+// animation handler, and returns the animated volatile
+const mountAnimated = async <S, T> (
+  clock: ManualClock,
+  target: Volatile<S>,
+  useAnimated: (target: Volatile<S>) => Volatile<T>
+) => {
+  let animated: Volatile<T> | undefined = undefined
+  const Animated = () => {
+    animated = useAnimated(target)
+    return null
+  }
+  await mount(
+    <ThemeProvider theme={theme}>
+      <ClockProvider clock={clock}>
+        <Animated />
+      </ClockProvider>
+    </ThemeProvider>
+  )
+  return animated!
+}
+
+const mountAnimatedPosition = (
+  clock: ManualClock,
+  target: Volatile<Vector3>
+) => mountAnimated(clock, target, useAnimatedPosition)
+
+test("animated position starts at its target", async () => {
+  const target = new RootVolatile(new Vector3(1, 2, 3))
+  const animated = await mountAnimatedPosition(new ManualClock(), target)
+  assert.deepEqual(get(animated).toArray(), [1, 2, 3])
+})
+
+test("animated position follows the manual clock", async () => {
+  const clock = new ManualClock()
+  const target = new RootVolatile(new Vector3())
+  const animated = await mountAnimatedPosition(clock, target)
+  get(animated)
+  target.set(new Vector3(10, 0, 0))
+  assert.equal(get(animated).x, 0)
+  const positions = [20, 20, 20, 20, 20, 20].map((duration) => {
+    clock.advance(duration)
+    return get(animated).x
+  })
+  // 2 units per 20 ms step
+  positions.forEach(
+    (x, i) => assert.ok(Math.abs(x - Math.min(2 * (i + 1), 10)) < 1e-9)
+  )
+})
+
+test("animated position holds while the clock is stopped", async () => {
+  const clock = new ManualClock()
+  const target = new RootVolatile(new Vector3())
+  const animated = await mountAnimatedPosition(clock, target)
+  get(animated)
+  target.set(new Vector3(10, 0, 0))
+  get(animated)
+  clock.advance(50)
+  const x = get(animated).x
+  assert.equal(get(animated).x, x)
+  assert.ok(Math.abs(x - 5) < 1e-9)
+})
+
+test("animated numbers move at 4 units per second by default", async () => {
+  const clock = new ManualClock()
+  const target = new RootVolatile(0)
+  const animated = await mountAnimated(clock, target, useAnimatedNumber)
+  assert.equal(get(animated), 0)
+  target.set(1)
+  get(animated)
+  clock.advance(125)
+  assert.ok(Math.abs(get(animated) - 0.5) < 1e-9)
+  clock.advance(200)
+  assert.equal(get(animated), 1)
+})
+
+// Whether the channels of both colors are equal, up to conversion errors
+const closeColors = (a: Color, b: Color) => (
+  a.toArray().every((channel, i) => Math.abs(channel - b.toArray()[i]) < 1e-6)
+)
+
+test("animated colors are interpolated in OKLab", async () => {
+  const clock = new ManualClock()
+  const target = new RootVolatile<ColorRepresentation>("black")
+  const animated = await mountAnimated(clock, target, useAnimatedColor)
+  assert.ok(get(animated).equals(new Color("black")))
+  target.set("white")
+  get(animated)
+  clock.advance(125)
+  // Halfway in lightness, i.e. (1 / 2)^3 in linear RGB
+  assert.ok(closeColors(get(animated), new Color(0.125, 0.125, 0.125)))
+  clock.advance(500)
+  assert.ok(closeColors(get(animated), new Color("white")))
+})
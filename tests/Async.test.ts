@@ -0,0 +1,63 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+
+import { AsyncVolatile } from "../src/motion/Async"
+import { ResourceHandle } from "../src/motion/Volatile"
+
+
+// Creates an attached handle counting how many times it was disposed of
+const createHandle = () => {
+  const handle = ResourceHandle.create({ disposed: 0 }, (resource) => {
+    resource.disposed++
+  })
+  handle.attach()
+  return handle
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve))
+
+test("async volatiles take over the handles they resolve with", async () => {
+  const volatile = new AsyncVolatile<ResourceHandle<{ disposed: number }>>()
+  const handle = createHandle()
+  volatile.run(async () => handle)
+  await settle()
+  assert.equal(handle.resource.disposed, 0)
+  volatile.unset()
+  assert.equal(handle.resource.disposed, 1)
+})
+
+test("async volatiles release replaced handles", async () => {
+  const volatile = new AsyncVolatile<ResourceHandle<{ disposed: number }>>()
+  const first = createHandle()
+  const second = createHandle()
+  volatile.run(async () => first)
+  await settle()
+  volatile.run(async () => second)
+  await settle()
+  assert.equal(first.resource.disposed, 1)
+  assert.equal(second.resource.disposed, 0)
+  volatile.unset()
+})
+
+test("async volatiles release handles of aborted computations", async () => {
+  const volatile = new AsyncVolatile<ResourceHandle<{ disposed: number }>>()
+  const handle = createHandle()
+  volatile.run(async () => (await settle(), handle))
+  volatile.abort()
+  await settle()
+  await settle()
+  assert.equal(handle.resource.disposed, 1)
+  assert.equal(volatile.ready(), false)
+})
+
+test("handles shared with other clients are kept alive", async () => {
+  const volatile = new AsyncVolatile<ResourceHandle<{ disposed: number }>>()
+  const handle = createHandle()
+  handle.attach()
+  volatile.run(async () => handle)
+  await settle()
+  volatile.unset()
+  assert.equal(handle.resource.disposed, 0)
+  handle.detach()
+  assert.equal(handle.resource.disposed, 1)
+})
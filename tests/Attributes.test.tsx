@@ -0,0 +1,264 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import React, { createRef } from "react"
+import { ThreeElements } from "@react-three/fiber"
+import ReactThreeTestRenderer from "@react-three/test-renderer"
+import { Color, Euler, Mesh as ThreeMesh, MeshBasicMaterial, Quaternion }
+  from "three"
+
+import { Mesh } from "../src/components/base/Mesh"
+import { BasicShaderMaterial } from "../src/material/BasicShaderMaterial"
+import {
+  ComponentFactory,
+  defaultVolatileAttributeClasses,
+  OuterComponentProps,
+  VolatileAttributeComponentFactory
+} from "../src/motion/Component"
+import { RootVolatile } from "../src/motion/Volatile"
+import { mountInRegistry } from "./Helpers"
+
+
+test("static spatial attributes are forwarded", async () => {
+  const ref = createRef<ThreeMesh>()
+  await mountInRegistry(
+    <Mesh ref={ref} rotation={[1, 0, 0]} visible={false} renderOrder={3} />
+  )
+  assert.equal(ref.current!.rotation.x, 1)
+  assert.equal(ref.current!.visible, false)
+  assert.equal(ref.current!.renderOrder, 3)
+})
+
+test("volatile spatial attributes update the instance", async () => {
+  const ref = createRef<ThreeMesh>()
+  const rotation = new RootVolatile(new Euler(1, 0, 0))
+  const visible = new RootVolatile(true)
+  const renderOrder = new RootVolatile(1)
+  const { resolve } = await mountInRegistry(
+    <Mesh ref={ref}
+      rotation={rotation}
+      visible={visible}
+      renderOrder={renderOrder}
+      />
+  )
+  const mesh = ref.current!
+  assert.equal(mesh.rotation.x, 1)
+  rotation.set(new Euler(0, 2, 0))
+  visible.set(false)
+  renderOrder.set(5)
+  await resolve()
+  assert.equal(ref.current, mesh)
+  assert.deepEqual(mesh.rotation.toArray().slice(0, 3), [0, 2, 0])
+  assert.equal(mesh.visible, false)
+  assert.equal(mesh.renderOrder, 5)
+})
+
+test("volatile quaternions update the instance", async () => {
+  const ref = createRef<ThreeMesh>()
+  const quaternion = new RootVolatile<[number, number, number, number]>(
+    [0, 0, 0, 1]
+  )
+  const { resolve } = await mountInRegistry(
+    <Mesh ref={ref} quaternion={quaternion} />
+  )
+  const rotated = new Quaternion().setFromEuler(new Euler(0, 0, 1))
+  quaternion.set(rotated.toArray() as [number, number, number, number])
+  await resolve()
+  assert.ok(ref.current!.quaternion.equals(rotated))
+})
+
+test("opacity is applied to clones of shared materials", async () => {
+  const ref = createRef<ThreeMesh>()
+  const material = new MeshBasicMaterial()
+  const opacity = new RootVolatile(0.5)
+  const { resolve, update } = await mountInRegistry(
+    <Mesh ref={ref} material={material} opacity={opacity} />
+  )
+  await resolve()
+  const clone = ref.current!.material as MeshBasicMaterial
+  assert.notEqual(clone, material)
+  assert.equal(clone.opacity, 0.5)
+  assert.equal(clone.transparent, true)
+  assert.equal(material.opacity, 1)
+  opacity.set(1)
+  await resolve()
+  assert.equal(clone.transparent, false)
+  await update(<Mesh ref={ref} material={material} />)
+  assert.equal(ref.current!.material, material)
+})
+
+test("opacity and color are applied to own materials in place", async () => {
+  const ref = createRef<ThreeMesh>()
+  const materialRef = createRef<MeshBasicMaterial>()
+  const color = new RootVolatile<string>("red")
+  const { resolve } = await mountInRegistry(
+    <Mesh ref={ref} opacity={0.25} color={color}>
+      <meshBasicMaterial ref={materialRef} />
+    </Mesh>
+  )
+  await resolve()
+  assert.equal(ref.current!.material, materialRef.current)
+  assert.equal(materialRef.current!.opacity, 0.25)
+  assert.ok(materialRef.current!.color.equals(new Color("red")))
+})
+
+test("volatile colors and opacities drive the basic shader uniforms",
+  async () => {
+    const material = new BasicShaderMaterial({ color: "red" })
+    const color = new RootVolatile<string>("blue")
+    const opacity = new RootVolatile(0.5)
+    const { resolve } = await mountInRegistry(
+      <Mesh color={color} opacity={opacity}>
+        <primitive object={material} attach="material" />
+      </Mesh>
+    )
+    await resolve()
+    color.set("green")
+    opacity.set(0.25)
+    await resolve()
+    material.onBeforeRender()
+    assert.ok(material.uniforms.uRCColor.value.equals(new Color("green")))
+    assert.equal(material.uniforms.uRCOpacity.value, 0.25)
+  }
+)
+
+// A custom attribute forwarded as the `name` property of objects
+const VolatileNameComponent = VolatileAttributeComponentFactory(
+  "name",
+  undefined,
+  (name: string, instance?: ThreeMesh) => {
+    if (!instance)
+      return { name }
+    instance.name = name
+  }
+)
+
+// A custom attribute applied to the instance only, then reverted
+const VolatileTagComponent = VolatileAttributeComponentFactory(
+  "tag",
+  undefined,
+  (tag: string, instance?: ThreeMesh) => {
+    if (instance)
+      instance.userData.tag = tag
+    return undefined
+  },
+  false,
+  (instance: ThreeMesh) => void delete instance.userData.tag
+)
+
+const customAttributeClasses = [
+  ...defaultVolatileAttributeClasses,
+  VolatileNameComponent,
+  VolatileTagComponent
+] as const
+
+const CustomComponent = ComponentFactory(customAttributeClasses)
+
+const PrimitiveMesh = (props: ThreeElements["mesh"]) => <mesh {...props} />
+
+const CustomMesh = (
+  props: OuterComponentProps<
+    typeof PrimitiveMesh,
+    [...typeof customAttributeClasses]
+  >
+) => <CustomComponent Class={PrimitiveMesh} {...props} />
+
+test("custom attributes accept static and volatile values", async () => {
+  const ref = createRef<ThreeMesh>()
+  const name = new RootVolatile("first")
+  const { resolve, update } = await mountInRegistry(
+    <CustomMesh ref={ref} name={name} position={[1, 2, 3]} />
+  )
+  assert.equal(ref.current!.name, "first")
+  assert.equal(ref.current!.position.z, 3)
+  name.set("second")
+  await resolve()
+  assert.equal(ref.current!.name, "second")
+  await update(<CustomMesh ref={ref} name="static" />)
+  assert.equal(ref.current!.name, "static")
+})
+
+test("custom attributes which are not forwarded are released", async () => {
+  const ref = createRef<ThreeMesh>()
+  const { update } = await mountInRegistry(<CustomMesh ref={ref} tag="a" />)
+  const mesh = ref.current!
+  assert.equal(mesh.userData.tag, "a")
+  await update(<CustomMesh ref={ref} />)
+  assert.equal(mesh.userData.tag, undefined)
+})
+
+test("attribute classes can be used on their own", async () => {
+  const ref = createRef<ThreeMesh>()
+  const name = new RootVolatile("alone")
+  await mountInRegistry(
+    <VolatileNameComponent Class={PrimitiveMesh} ref={ref} name={name} />
+  )
+  assert.equal(ref.current!.name, "alone")
+})
+
+test("volatile attributes of an instance share one registration", async () => {
+  const position = new RootVolatile<[number, number, number]>([0, 0, 0])
+  const scale = new RootVolatile<[number, number, number]>([1, 1, 1])
+  const visible = new RootVolatile(true)
+  const { getVolatiles } = await mountInRegistry(
+    <>
+      {[...Array(10)].map((_, i) => (
+        <Mesh key={i} position={position} scale={scale} visible={visible} />
+      ))}
+    </>
+  )
+  assert.equal(getVolatiles().length, 10)
+})
+
+test("only the changed volatile attributes are applied", async () => {
+  const ref = createRef<ThreeMesh>()
+  const position = new RootVolatile<[number, number, number]>([0, 0, 0])
+  const scale = new RootVolatile<[number, number, number]>([1, 1, 1])
+  const { resolve } = await mountInRegistry(
+    <Mesh ref={ref} position={position} scale={scale} />
+  )
+  const mesh = ref.current!
+  position.set([1, 2, 3])
+  await resolve()
+  assert.deepEqual(mesh.position.toArray(), [1, 2, 3])
+  // Changes made to the scale are kept until the scale volatile changes
+  mesh.scale.set(5, 5, 5)
+  position.set([4, 5, 6])
+  await resolve()
+  assert.deepEqual(mesh.position.toArray(), [4, 5, 6])
+  assert.deepEqual(mesh.scale.toArray(), [5, 5, 5])
+  scale.set([2, 2, 2])
+  await resolve()
+  assert.deepEqual(mesh.scale.toArray(), [2, 2, 2])
+})
+
+test("attributes resolve when they switch between static and volatile",
+  async () => {
+    const ref = createRef<ThreeMesh>()
+    const position = new RootVolatile<[number, number, number]>([1, 1, 1])
+    const { resolve, update } = await mountInRegistry(
+      <Mesh ref={ref} position={[0, 0, 0]} scale={[2, 2, 2]} />
+    )
+    await update(<Mesh ref={ref} position={position} scale={[2, 2, 2]} />)
+    assert.deepEqual(ref.current!.position.toArray(), [1, 1, 1])
+    position.set([3, 3, 3])
+    await resolve()
+    assert.deepEqual(ref.current!.position.toArray(), [3, 3, 3])
+    assert.deepEqual(ref.current!.scale.toArray(), [2, 2, 2])
+    await update(<Mesh ref={ref} position={[7, 7, 7]} scale={[2, 2, 2]} />)
+    assert.deepEqual(ref.current!.position.toArray(), [7, 7, 7])
+  }
+)
+
+test("instances wait for all their volatile attributes", async () => {
+  const ref = createRef<ThreeMesh>()
+  const position = new RootVolatile<[number, number, number]>([1, 1, 1])
+  const scale = new RootVolatile<[number, number, number]>()
+  const { resolve } = await mountInRegistry(
+    <Mesh ref={ref} position={position} scale={scale} />
+  )
+  assert.equal(ref.current, null)
+  await ReactThreeTestRenderer.act(async () => scale.set([2, 2, 2]))
+  await resolve()
+  assert.deepEqual(ref.current!.position.toArray(), [1, 1, 1])
+  assert.deepEqual(ref.current!.scale.toArray(), [2, 2, 2])
+})
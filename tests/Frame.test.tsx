@@ -0,0 +1,69 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import React from "react"
+import { Color, LineBasicMaterial, Mesh, MeshBasicMaterial } from "three"
+
+import { Frame } from "../src/components/box/Frame"
+import { ThreeLine } from "../src/components/base/Line"
+import { RootVolatile } from "../src/motion/Volatile"
+import { mountInRegistry, TestRenderer } from "./Helpers"
+
+
+// Returns the background and border materials of the mounted frame
+const materialsOf = (renderer: TestRenderer) => {
+  const [mesh] = renderer.scene.findAll(
+    ({ instance }) => instance instanceof Mesh
+  )
+  const [line] = renderer.scene.findAll(
+    ({ instance }) => instance instanceof ThreeLine
+  )
+  return {
+    background: (mesh.instance as Mesh).material as MeshBasicMaterial,
+    border: (line.instance as ThreeLine).material as LineBasicMaterial
+  }
+}
+
+test("frame colors and opacities can be static", async () => {
+  const { renderer, resolve } = await mountInRegistry(
+    <Frame position={[0, 0, 0]}
+      size={[100, 50]}
+      color="red"
+      opacity={0.5}
+      borderColor="blue"
+      borderOpacity={0.25}
+      />
+  )
+  await resolve()
+  const { background, border } = materialsOf(renderer)
+  assert.ok(background.color.equals(new Color("red")))
+  assert.equal(background.opacity, 0.5)
+  assert.ok(border.color.equals(new Color("blue")))
+  assert.equal(border.opacity, 0.25)
+})
+
+test("volatile frame colors and opacities update the materials",
+  async () => {
+    const color = new RootVolatile<string>("red")
+    const opacity = new RootVolatile(1)
+    const borderColor = new RootVolatile<string>("blue")
+    const { renderer, resolve } = await mountInRegistry(
+      <Frame position={[0, 0, 0]}
+        size={[100, 50]}
+        color={color}
+        opacity={opacity}
+        borderColor={borderColor}
+        />
+    )
+    await resolve()
+    const { background, border } = materialsOf(renderer)
+    assert.ok(background.color.equals(new Color("red")))
+    color.set("green")
+    opacity.set(0.5)
+    borderColor.set("yellow")
+    await resolve()
+    assert.deepEqual(materialsOf(renderer), { background, border })
+    assert.ok(background.color.equals(new Color("green")))
+    assert.equal(background.opacity, 0.5)
+    assert.ok(border.color.equals(new Color("yellow")))
+  }
+)
@@ -0,0 +1,141 @@
+import { afterEach } from "node:test"
+import React, { createRef, ReactNode, RefObject } from "react"
+import { useFrame, useThree } from "@react-three/fiber"
+import ReactThreeTestRenderer from "@react-three/test-renderer"
+import { WebGLRenderer } from "three"
+
+import { ThemeConfiguration, ThemeProvider } from "../src/configuration/Theme"
+import { CommonMaterialValuesProvider }
+  from "../src/material/CommonMaterialValues"
+import { Renderer, RendererInterface }
+  from "../src/components/rendering/Renderer"
+import { AnimationHandler, ClockProvider } from "../src/motion/Animation"
+import { ManualClock } from "../src/motion/Clock"
+import {
+  ComponentVolatileRegistry,
+  useComponentVolatileRegistryHandlers
+} from "../src/motion/Component"
+
+
+declare global {
+  var IS_REACT_ACT_ENVIRONMENT: boolean
+}
+
+globalThis.IS_REACT_ACT_ENVIRONMENT = true
+
+export type TestRenderer =
+  Awaited<ReturnType<typeof ReactThreeTestRenderer.create>>
+
+let renderer: TestRenderer | undefined = undefined
+
+afterEach(async () => {
+  await renderer?.unmount()
+  renderer = undefined
+})
+
+/**
+ * Renders `element` with the react-three-fiber test renderer. The renderer is
+ * unmounted after the current test.
+ * @param element the element to render
+ * @returns the test renderer
+ */
+export const mount = async (element: ReactNode) => {
+  renderer = await ReactThreeTestRenderer.create(element)
+  return renderer
+}
+
+type RegistryHandlers =
+  ReturnType<typeof useComponentVolatileRegistryHandlers>
+
+/**
+ * Renders `element` in a component volatile registry, like renderers do.
+ * @param element the element to render
+ * @returns the test renderer, and the registry `resolve` and `getVolatiles`
+ * handlers
+ */
+export const mountInRegistry = async (element: ReactNode) => {
+  let handlers: RegistryHandlers | undefined = undefined
+  const Registry = ({ children }: { children: ReactNode }) => {
+    handlers = useComponentVolatileRegistryHandlers()
+    return (
+      <ComponentVolatileRegistry register={handlers[0]}>
+        {children}
+      </ComponentVolatileRegistry>
+    )
+  }
+  const renderer = await mount(<Registry>{element}</Registry>)
+  const [, resolve, getVolatiles] = handlers!
+  return {
+    renderer,
+    resolve: () => ReactThreeTestRenderer.act(async () => resolve()),
+    getVolatiles,
+    // Renders a new element in the same registry
+    update: (element: ReactNode) =>
+      renderer.update(<Registry>{element}</Registry>)
+  }
+}
+
+/**
+ * Theme of the scenes mounted with {@link mountScene}: linear motion at 100
+ * units per second.
+ */
+export const testTheme = {
+  backgroundColor: "black",
+  animation: { model: "linear", speed: 100, policy: "full" }
+} as ThemeConfiguration
+
+type FrameLoopProps = {
+  view: RefObject<RendererInterface | null>
+  gl: RefObject<WebGLRenderer | null>
+}
+
+// Resolves then renders the view on each frame, like the application does
+const FrameLoop = ({ view, gl }: FrameLoopProps) => {
+  gl.current = useThree((state) => state.gl)
+  useFrame(() => view.current?.resolveComponentVolatiles(), -3)
+  useFrame(() => view.current?.render(), 1)
+  return <></>
+}
+
+/**
+ * Renders `element` in a renderer with an animation handler, driven by a
+ * manual clock, as the application would.
+ * @param element the element to render
+ * @param theme an optional theme (default {@link testTheme})
+ * @returns the test renderer, the renderer interface, the WebGL renderer, the
+ * clock, a function which advances the clock then runs a frame, and a function
+ * which renders a new element in the same scene
+ */
+export const mountScene = async (
+  element: ReactNode,
+  theme: ThemeConfiguration = testTheme
+) => {
+  const view = createRef<RendererInterface>()
+  const gl = createRef<WebGLRenderer>()
+  const clock = new ManualClock()
+  const Scene = ({ children }: { children: ReactNode }) => (
+    <ThemeProvider theme={theme}>
+      <CommonMaterialValuesProvider>
+        <ClockProvider clock={clock}>
+          <Renderer ref={view}>
+            {children}
+            <AnimationHandler />
+          </Renderer>
+          <FrameLoop view={view} gl={gl} />
+        </ClockProvider>
+      </CommonMaterialValuesProvider>
+    </ThemeProvider>
+  )
+  const renderer = await mount(<Scene>{element}</Scene>)
+  return {
+    renderer,
+    view: view.current!,
+    gl: gl.current!,
+    clock,
+    frame: (duration = 0) => ReactThreeTestRenderer.act(async () => {
+      clock.advance(duration)
+      await renderer.advanceFrames(1, duration / 1000)
+    }),
+    update: (element: ReactNode) => renderer.update(<Scene>{element}</Scene>)
+  }
+}
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+
+import { VolatileHistory } from "../src/motion/History"
+import { get, RootVolatile } from "../src/motion/Volatile"
+
+
+test("seeking restores recorded states", () => {
+  const history = new VolatileHistory()
+  const volatile = new RootVolatile(0)
+  history.track("value", volatile)
+  history.start()
+  volatile.set(1)
+  volatile.set(2)
+  history.back()
+  assert.equal(get(volatile), 1)
+  history.seek(0)
+  assert.equal(get(volatile), 0)
+  history.forward(2)
+  assert.equal(get(volatile), 2)
+  assert.equal(history.isRecording(), true)
+})
+
+test("seeking skips volatiles which are not tracked anymore", () => {
+  const history = new VolatileHistory()
+  const kept = new RootVolatile(0)
+  const dropped = new RootVolatile(0)
+  history.track("kept", kept)
+  const untrack = history.track("dropped", dropped)
+  history.start()
+  kept.set(1)
+  dropped.set(1)
+  untrack()
+  history.seek(0)
+  assert.equal(get(kept), 0)
+  assert.equal(get(dropped), 1)
+  history.seek(2)
+  assert.equal(get(kept), 1)
+})
+
+test("the oldest entries become the initial state past the capacity", () => {
+  const history = new VolatileHistory(2)
+  const volatile = new RootVolatile(0)
+  history.track("value", volatile)
+  history.start()
+  volatile.set(1)
+  volatile.set(2)
+  volatile.set(3)
+  assert.deepEqual(history.getEntries().map(({ value }) => value), [2, 3])
+  history.seek(0)
+  assert.equal(get(volatile), 1)
+})
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+
+import {
+  Observer,
+  toObservable,
+  volatileFromObservable,
+  volatileFromStore
+} from "../src/motion/Interop"
+import { get, RootVolatile, Volatile } from "../src/motion/Volatile"
+
+
+// A minimal store, as created by zustand or Redux
+const createStore = <S> (state: S) => {
+  const listeners = new Set<() => void>()
+  return {
+    getState: () => state,
+    setState: (newState: S) => {
+      state = newState
+      listeners.forEach((listener) => listener())
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener)
+      return () => void listeners.delete(listener)
+    }
+  }
+}
+
+// A minimal subject, as provided by RxJS
+const createSubject = <T> () => {
+  const observers = new Set<Partial<Observer<T>>>()
+  return {
+    next: (value: T) => observers.forEach((observer) => observer.next?.(value)),
+    error: (error: unknown) =>
+      observers.forEach((observer) => observer.error?.(error)),
+    subscribe: (observer: Partial<Observer<T>>) => {
+      observers.add(observer)
+      return { unsubscribe: () => void observers.delete(observer) }
+    }
+  }
+}
+
+const flushMicrotasks = () => new Promise((resolve) => setTimeout(resolve))
+
+test("store volatiles only change with the selected value", () => {
+  const store = createStore({ count: 1, other: "" })
+  const count = volatileFromStore(store, ({ count }) => count)
+  let invalidations = 0
+  const unsubscribe = count.subscribeInvalidation(() => invalidations++)
+  store.setState({ count: 1, other: "changed" })
+  assert.equal(invalidations, 0)
+  store.setState({ count: 2, other: "changed" })
+  assert.equal(invalidations, 1)
+  assert.equal(get(count), 2)
+  unsubscribe()
+  count.dispose()
+  assert.equal(count.ready(), false)
+})
+
+test("observable volatiles hold the latest value or the error", () => {
+  const subject = createSubject<number>()
+  const volatile = volatileFromObservable(subject)
+  assert.equal(volatile.ready(), false)
+  subject.next(1)
+  assert.equal(get(volatile), 1)
+  subject.error(new Error("Failure"))
+  assert.equal(volatile.ready(), false)
+  assert.equal((volatile.getError() as Error).message, "Failure")
+  volatile.connect()
+  subject.next(2)
+  assert.equal(get(volatile), 2)
+  assert.equal(volatile.getError(), undefined)
+  volatile.dispose()
+})
+
+test("volatile observables emit the current value on subscription", () => {
+  const volatile = new RootVolatile(1)
+  const values: Array<number> = []
+  const subscription = toObservable(volatile).subscribe(
+    (value) => values.push(value)
+  )
+  assert.deepEqual(values, [1])
+  subscription.unsubscribe()
+})
+
+test("volatile observables emit after the changes propagated", async () => {
+  const a = new RootVolatile(1)
+  const b = new RootVolatile(1)
+  let computations = 0
+  const sum = Volatile.combine([a, b], (x, y) => (computations++, x + y))
+  const values: Array<number> = []
+  const subscription = toObservable(sum).subscribe(
+    (value) => values.push(value)
+  )
+  Volatile.batch(() => {
+    a.set(2)
+    b.set(2)
+  })
+  a.set(3)
+  assert.equal(computations, 1)
+  await flushMicrotasks()
+  assert.deepEqual(values, [2, 5])
+  assert.equal(computations, 2)
+  subscription.unsubscribe()
+  sum.dispose()
+})
+
+test("volatile observables stop emitting once unsubscribed", async () => {
+  const volatile = new RootVolatile(1)
+  const values: Array<number> = []
+  const subscription = toObservable(volatile).subscribe(
+    (value) => values.push(value)
+  )
+  volatile.set(2)
+  subscription.unsubscribe()
+  await flushMicrotasks()
+  assert.deepEqual(values, [1])
+})
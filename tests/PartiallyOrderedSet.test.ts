@@ -0,0 +1,96 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+
+import { PartiallyOrderedSet } from "../src/utils/PartiallyOrderedSet"
+
+
+// Tests that each relationship `[a, b]` holds in `values`
+const assertOrdered = <T> (values: T[], relationships: Array<[T, T]>) =>
+  relationships.forEach(
+    ([a, b]) => assert.ok(
+      values.indexOf(a) < values.indexOf(b),
+      `${a} should precede ${b}`
+    )
+  )
+
+test("elements are iterated in insertion order by default", () => {
+  const set = new PartiallyOrderedSet<string>()
+  set.add("a").add("b").add("c").add("a")
+  assert.equal(set.size, 3)
+  assert.deepEqual([...set.sortedValues()], ["a", "b", "c"])
+})
+
+test("relationships reorder the elements", () => {
+  const set = new PartiallyOrderedSet<string>()
+  set.add("a").add("b").add("c").add("d")
+  const relationships: Array<[string, string]> =
+    [["d", "a"], ["c", "d"], ["b", "c"]]
+  relationships.forEach(([a, b]) => assert.equal(set.order(a, b), true))
+  assertOrdered([...set.sortedValues()], relationships)
+})
+
+test("relationships leading to a cycle are rejected", () => {
+  const set = new PartiallyOrderedSet<string>()
+  set.add("a").add("b").add("c")
+  assert.equal(set.order("a", "b"), true)
+  assert.equal(set.order("b", "c"), true)
+  assert.equal(set.order("c", "a"), false)
+  assert.equal(set.order("a", "a"), false)
+  assertOrdered([...set.sortedValues()], [["a", "b"], ["b", "c"]])
+})
+
+test("relationships need both elements", () => {
+  const set = new PartiallyOrderedSet<string>()
+  set.add("a")
+  assert.equal(set.order("a", "b"), false)
+  assert.equal(set.order("b", "a"), false)
+})
+
+test("removing an element removes its relationships", () => {
+  const set = new PartiallyOrderedSet<string>()
+  set.add("a").add("b").add("c")
+  set.order("a", "b")
+  set.order("b", "c")
+  assert.equal(set.delete("b"), true)
+  assert.equal(set.delete("b"), false)
+  assert.equal(set.has("b"), false)
+  assert.deepEqual([...set.sortedValues()], ["a", "c"])
+  // The relationships through the removed element do not hold anymore
+  assert.equal(set.order("c", "a"), true)
+  assert.deepEqual([...set.sortedValues()], ["c", "a"])
+})
+
+test("removing a relationship allows the reverse one", () => {
+  const set = new PartiallyOrderedSet<string>()
+  set.add("a").add("b")
+  set.order("a", "b")
+  assert.equal(set.unorder("a", "b"), true)
+  assert.equal(set.unorder("a", "b"), false)
+  assert.equal(set.order("b", "a"), true)
+  assert.deepEqual([...set.sortedValues()], ["b", "a"])
+})
+
+test("the order holds through many insertions and deletions", () => {
+  const set = new PartiallyOrderedSet<number>()
+  const relationships: Array<[number, number]> = []
+  // Deterministic pseudo-random sequence
+  let seed = 1
+  const random = (max: number) => (seed = seed * 16807 % 2147483647) % max
+  for (let i = 0; i < 200; i++) {
+    set.add(i)
+    const a = random(i + 1)
+    const b = random(i + 1)
+    if (set.has(a) && set.has(b) && set.order(a, b))
+      relationships.push([a, b])
+    if (i % 3 === 2) {
+      const removed = random(i)
+      set.delete(removed)
+      for (let j = relationships.length - 1; j >= 0; j--)
+        if (relationships[j].includes(removed))
+          relationships.splice(j, 1)
+    }
+  }
+  const values = [...set.sortedValues()]
+  assert.equal(values.length, set.size)
+  assertOrdered(values, relationships)
+})
@@ -0,0 +1,207 @@
+import assert from "node:assert/strict"
+import { test, TestContext } from "node:test"
+import React, { createRef, useMemo } from "react"
+import { DataTexture, Mesh, MeshBasicMaterial, PerspectiveCamera,
+  PlaneGeometry, Texture, Vector2, WebGLRenderer, WebGLRenderTarget }
+  from "three"
+
+import {
+  BloomPass,
+  OutlinePass,
+  PostProcessing,
+  ShaderPass,
+  useOutlineMask
+} from "../src/components/rendering/PostProcessing"
+import { PostProcessingPass, RendererInterface }
+  from "../src/components/rendering/Renderer"
+import { newRenderStepIdentifier, UserInterfaceStage }
+  from "../src/components/rendering/Stages"
+import { mountScene } from "./Helpers"
+
+
+// Records the bindings of render targets and the renders. Targets are not
+// actually bound, since the WebGL context of the test renderer cannot create
+// framebuffers. They are named after the order in which they are first bound,
+// unless named beforehand.
+const createRecorder = (named: Map<WebGLRenderTarget, string> = new Map()) => {
+  const log: string[] = []
+  const names = new Map(named)
+  let bound: WebGLRenderTarget | null = null
+  const nameOf = (target: WebGLRenderTarget | null) => {
+    if (!target)
+      return "output"
+    if (!names.has(target))
+      names.set(target, `target ${names.size - named.size}`)
+    return names.get(target)!
+  }
+  const nameOfTexture = (texture: Texture) => nameOf(
+    [...names.keys()].find((target) => target.texture === texture) ?? null
+  )
+  return {
+    log,
+    // Mocks the rendering functions of `gl`
+    mock: (t: TestContext, gl: WebGLRenderer) => {
+      t.mock.method(
+        gl,
+        "setRenderTarget",
+        (target: WebGLRenderTarget | null) => {
+          bound = target
+          log.push(`bind ${nameOf(target)}`)
+        }
+      )
+      t.mock.method(gl, "getRenderTarget", () => bound)
+      t.mock.method(gl, "render", () => void log.push("render"))
+    },
+    // A pass which logs its input instead of rendering
+    pass: (name: string): PostProcessingPass => ({
+      render: (_, input) => void log.push(`${name} ${nameOfTexture(input)}`)
+    }),
+    // Logs the rendering of the user interface stage
+    recordUserInterface: (view: RendererInterface) => view.registerRenderer(
+      newRenderStepIdentifier(),
+      [UserInterfaceStage.start],
+      [UserInterfaceStage.end],
+      () => void log.push("user interface")
+    )
+  }
+}
+
+test("the first layer renders to the output without passes", async (t) => {
+  const recorder = createRecorder()
+  const { view, gl, frame } = await mountScene(<PostProcessing passes={[]} />)
+  recorder.mock(t, gl)
+  recorder.recordUserInterface(view)
+  await frame()
+  assert.deepEqual(recorder.log, ["render", "user interface"])
+})
+
+test("passes render the first layer through intermediate targets",
+  async (t) => {
+    const recorder = createRecorder()
+    const passes = [recorder.pass("first"), recorder.pass("second")]
+    const { view, gl, frame } = await mountScene(
+      <PostProcessing passes={passes} />
+    )
+    recorder.mock(t, gl)
+    recorder.recordUserInterface(view)
+    await frame()
+    assert.deepEqual(recorder.log, [
+      "bind target 0",
+      "render",
+      "bind target 1",
+      "first target 0",
+      "bind output",
+      "second target 1",
+      "user interface"
+    ])
+  }
+)
+
+test("removing the passes renders the first layer to the output again",
+  async (t) => {
+    const recorder = createRecorder()
+    const { gl, frame, update } = await mountScene(
+      <PostProcessing passes={[recorder.pass("only")]} />
+    )
+    recorder.mock(t, gl)
+    await update(<PostProcessing passes={[]} />)
+    await frame()
+    assert.deepEqual(recorder.log, ["render"])
+  }
+)
+
+// An input texture of 4 by 2 pixels
+const createInput = () => new DataTexture(null, 4, 2)
+
+test("shader passes receive their input and its texel size", async (t) => {
+  const recorder = createRecorder()
+  const { gl } = await mountScene(<></>)
+  recorder.mock(t, gl)
+  const pass = new ShaderPass("void main() {}")
+  const input = createInput()
+  pass.render(gl, input)
+  assert.equal(pass.uniforms.uRCInput.value, input)
+  assert.deepEqual(pass.uniforms.uRCTexelSize.value.toArray(), [0.25, 0.5])
+  assert.deepEqual(recorder.log, ["render"])
+  pass.dispose()
+})
+
+test("bloom passes blur at half resolution then render to the output",
+  async (t) => {
+    const recorder = createRecorder()
+    const { gl } = await mountScene(<></>)
+    recorder.mock(t, gl)
+    const pass = new BloomPass()
+    pass.render(gl, createInput())
+    assert.deepEqual(recorder.log, [
+      "bind target 0",
+      "render",
+      "bind target 1",
+      "render",
+      "bind target 0",
+      "render",
+      "bind output",
+      "render"
+    ])
+    pass.dispose()
+  }
+)
+
+test("outline masks are rendered with the mask material", async (t) => {
+  const { gl } = await mountScene(<></>)
+  const pass = new OutlinePass()
+  const material = new MeshBasicMaterial()
+  const object = new Mesh(new PlaneGeometry(), material)
+  const hidden = new Mesh(new PlaneGeometry(), material)
+  hidden.visible = false
+  object.add(hidden)
+  const rendered: unknown[] = []
+  t.mock.method(
+    gl,
+    "render",
+    () => void rendered.push(object.material, hidden.material)
+  )
+  pass.renderMask(gl, [object], new PerspectiveCamera())
+  assert.equal(rendered.length, 2)
+  assert.notEqual(rendered[0], material)
+  assert.equal(rendered[1], material)
+  assert.equal(object.material, material)
+  pass.dispose()
+})
+
+// Outlines a mesh with the pass
+const Outlined = ({ pass }: { pass: OutlinePass }) => {
+  const mesh = useMemo(() => createRef<Mesh>(), [])
+  const objects = useMemo(() => [mesh], [mesh])
+  const passes = useMemo(() => [pass], [pass])
+  useOutlineMask(pass, objects)
+  return (
+    <>
+      <PostProcessing passes={passes} />
+      <mesh ref={mesh}>
+        <planeGeometry />
+        <meshBasicMaterial />
+      </mesh>
+    </>
+  )
+}
+
+test("outline masks are rendered before the first layer", async (t) => {
+  const pass = new OutlinePass()
+  const recorder = createRecorder(new Map([[pass.mask, "mask"]]))
+  const { gl, frame } = await mountScene(<Outlined pass={pass} />)
+  recorder.mock(t, gl)
+  await frame()
+  assert.deepEqual(recorder.log, [
+    "bind mask",
+    "render",
+    "bind output",
+    "bind target 0",
+    "render",
+    "bind output",
+    "render"
+  ])
+  const size = gl.getDrawingBufferSize(new Vector2())
+  assert.deepEqual([pass.mask.width, pass.mask.height], size.toArray())
+  pass.dispose()
+})
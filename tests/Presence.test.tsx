@@ -0,0 +1,103 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import React, { useEffect } from "react"
+
+import { Presence, usePresence } from "../src/motion/Presence"
+import { get, Volatile } from "../src/motion/Volatile"
+import { mountScene, testTheme } from "./Helpers"
+
+
+// Presence volatiles of the probes which are currently mounted, by label
+const presences = new Map<string, Volatile<number>>()
+
+const Probe = ({ label }: { label: string }) => {
+  const presence = usePresence()
+  useEffect(() => {
+    presences.set(label, presence)
+    return () => void presences.delete(label)
+  }, [label, presence])
+  return null
+}
+
+const presenceOf = (label: string) => get(presences.get(label)!)
+
+test("children present on mount are not animated", async () => {
+  presences.clear()
+  await mountScene(
+    <Presence>
+      <Probe key="a" label="a" />
+    </Presence>
+  )
+  assert.equal(presenceOf("a"), 1)
+})
+
+test("added children are animated from absent to present", async () => {
+  presences.clear()
+  const { frame, update } = await mountScene(<Presence duration={100} />)
+  await update(
+    <Presence duration={100}>
+      <Probe key="a" label="a" />
+    </Presence>
+  )
+  assert.equal(presenceOf("a"), 0)
+  await frame(50)
+  assert.ok(presenceOf("a") > 0 && presenceOf("a") < 1)
+  await frame(60)
+  assert.equal(presenceOf("a"), 1)
+})
+
+test("removed children stay mounted until they exited", async () => {
+  presences.clear()
+  const { frame, update } = await mountScene(
+    <Presence duration={100}>
+      <Probe key="a" label="a" />
+      <Probe key="b" label="b" />
+    </Presence>
+  )
+  await update(
+    <Presence duration={100}>
+      <Probe key="b" label="b" />
+    </Presence>
+  )
+  await frame(50)
+  assert.ok(presences.has("a"))
+  assert.ok(presenceOf("a") > 0 && presenceOf("a") < 1)
+  await frame(60)
+  await frame()
+  assert.deepEqual([...presences.keys()], ["b"])
+})
+
+test("children added back while exiting enter again", async () => {
+  presences.clear()
+  const { frame, update } = await mountScene(
+    <Presence duration={100}>
+      <Probe key="a" label="a" />
+    </Presence>
+  )
+  const volatile = presences.get("a")
+  await update(<Presence duration={100} />)
+  await frame(50)
+  const exiting = presenceOf("a")
+  await update(
+    <Presence duration={100}>
+      <Probe key="a" label="a" />
+    </Presence>
+  )
+  assert.equal(presences.get("a"), volatile)
+  assert.equal(presenceOf("a"), exiting)
+  await frame(100)
+  await frame()
+  assert.equal(presenceOf("a"), 1)
+})
+
+test("transitions are instant without motion", async () => {
+  presences.clear()
+  const { update } = await mountScene(
+    <Presence>
+      <Probe key="a" label="a" />
+    </Presence>,
+    { ...testTheme, animation: { ...testTheme.animation, policy: "none" } }
+  )
+  await update(<Presence />)
+  assert.equal(presences.size, 0)
+})
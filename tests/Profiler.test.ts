@@ -0,0 +1,69 @@
+import assert from "node:assert/strict"
+import { afterEach, test } from "node:test"
+
+import { get, RootVolatile } from "../src/motion/Volatile"
+import { VolatileProfiler } from "../src/utils/Profiler"
+
+
+const profiler = new VolatileProfiler()
+
+afterEach(() => profiler.stop())
+
+test("the profiler records recomputations per frame", () => {
+  const source = new RootVolatile(1)
+  const doubled = source.map((value) => value * 2).setName("doubled")
+  profiler.start()
+  profiler.frame(() => get(doubled))
+  source.set(2)
+  profiler.frame(() => get(doubled))
+  profiler.frame(() => get(doubled))
+  const { frameCount, frames, volatiles } = profiler.getProfile()
+  assert.equal(frameCount, 3)
+  assert.deepEqual(
+    frames.map(({ recomputeCount }) => recomputeCount),
+    [1, 1, 0]
+  )
+  assert.equal(volatiles.length, 1)
+  assert.equal(volatiles[0].name, "doubled")
+  assert.equal(volatiles[0].recomputeCount, 2)
+  assert.equal(volatiles[0].recomputesPerFrame, 2 / 3)
+  doubled.dispose()
+})
+
+test("nested passes are accounted for in the outermost frame", () => {
+  const source = new RootVolatile(1)
+  const doubled = source.map((value) => value * 2)
+  profiler.start()
+  profiler.frame(() => profiler.frame(() => get(doubled)))
+  const { frameCount, frames } = profiler.getProfile()
+  assert.equal(frameCount, 1)
+  assert.equal(frames[0].recomputeCount, 1)
+  doubled.dispose()
+})
+
+test("the profiler records nothing once stopped", () => {
+  const source = new RootVolatile(1)
+  const doubled = source.map((value) => value * 2)
+  profiler.start()
+  profiler.stop()
+  profiler.frame(() => get(doubled))
+  assert.equal(profiler.getProfile().frameCount, 0)
+  assert.equal(profiler.getProfile().volatiles.length, 0)
+  doubled.dispose()
+})
+
+test("the Chrome trace holds frame and volatile events", () => {
+  const source = new RootVolatile(1)
+  const doubled = source.map((value) => value * 2).setName("doubled")
+  profiler.start()
+  profiler.frame(() => get(doubled))
+  const { traceEvents } = JSON.parse(profiler.exportChromeTrace())
+  assert.deepEqual(
+    traceEvents.map(({ name, cat, ph }: any) => [name, cat, ph]),
+    [
+      ["doubled", "volatile", "X"],
+      ["resolveComponentVolatiles", "frame", "X"]
+    ]
+  )
+  doubled.dispose()
+})
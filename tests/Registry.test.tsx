@@ -0,0 +1,132 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import React from "react"
+
+import { Resolve, SuspendComponentVolatiles } from "../src/motion/Component"
+import { RootVolatile, Volatile } from "../src/motion/Volatile"
+import { mountInRegistry } from "./Helpers"
+
+
+// Creates a volatile which records its computations in `log`
+const createLogged = (
+  name: string,
+  log: string[],
+  source = new RootVolatile(0)
+) => source.map(() => void log.push(name)).setName(name)
+
+test("volatiles are resolved by priority", async () => {
+  const log: string[] = []
+  const late = createLogged("late", log)
+  const normal = createLogged("normal", log)
+  const early = createLogged("early", log)
+  const { resolve } = await mountInRegistry(
+    <>
+      <Resolve volatile={late} priority="late" />
+      <Resolve volatile={normal} />
+      <Resolve volatile={early} priority="early" />
+    </>
+  )
+  await resolve()
+  assert.deepEqual(log, ["early", "normal", "late"])
+})
+
+test("auxiliaries are resolved before their volatiles", async () => {
+  const log: string[] = []
+  const volatile = new RootVolatile(0)
+  const owner = volatile.map(() => void log.push("owner"))
+  const auxiliary = createLogged("auxiliary", log)
+  volatile.setAuxiliary(auxiliary)
+  const { resolve, getVolatiles } = await mountInRegistry(
+    <Resolve volatile={volatile} priority="early" />
+  )
+  await resolve()
+  assert.deepEqual(getVolatiles(), [auxiliary, volatile])
+  assert.deepEqual(log, ["auxiliary"])
+  owner.dispose()
+})
+
+test("a volatile registered twice gets the highest priority", async () => {
+  const log: string[] = []
+  const source = new RootVolatile(0)
+  const shared = createLogged("shared", log, source)
+  const normal = createLogged("normal", log, source)
+  const { resolve, update } = await mountInRegistry(
+    <>
+      <Resolve volatile={normal} />
+      <Resolve volatile={shared} priority="late" />
+      <Resolve volatile={shared} priority="early" />
+    </>
+  )
+  await resolve()
+  assert.deepEqual(log, ["shared", "normal"])
+  await update(
+    <>
+      <Resolve volatile={normal} />
+      <Resolve volatile={shared} priority="late" />
+    </>
+  )
+  log.length = 0
+  source.set(1)
+  await resolve()
+  assert.deepEqual(log, ["normal", "shared"])
+})
+
+test("lazy volatiles are only computed when read", async () => {
+  const log: string[] = []
+  const lazy = createLogged("lazy", log)
+  const { resolve } = await mountInRegistry(
+    <Resolve volatile={lazy} lazy />
+  )
+  await resolve()
+  assert.deepEqual(log, [])
+  lazy.current()
+  assert.deepEqual(log, ["lazy"])
+})
+
+test("lazy volatiles still resolve their auxiliaries", async () => {
+  const log: string[] = []
+  const volatile = new RootVolatile(0)
+  volatile.setAuxiliary(createLogged("auxiliary", log))
+  const { resolve } = await mountInRegistry(
+    <Resolve volatile={volatile} lazy />
+  )
+  await resolve()
+  assert.deepEqual(log, ["auxiliary"])
+})
+
+test("suspended subtrees are resolved again once resumed", async () => {
+  const log: string[] = []
+  const source = new RootVolatile(0)
+  const offscreen = source.map((value) => void log.push(`offscreen ${value}`))
+  const suspended = new RootVolatile(true)
+  const { resolve } = await mountInRegistry(
+    <SuspendComponentVolatiles suspended={suspended}>
+      <Resolve volatile={offscreen} />
+    </SuspendComponentVolatiles>
+  )
+  await resolve()
+  assert.deepEqual(log, [])
+  suspended.set(false)
+  await resolve()
+  source.set(1)
+  await resolve()
+  assert.deepEqual(log, ["offscreen 0", "offscreen 1"])
+  offscreen.dispose()
+})
+
+test("volatiles registered outside of a suspended subtree are resolved",
+  async () => {
+    const log: string[] = []
+    const shared: Volatile<void> = createLogged("shared", log)
+    const { resolve } = await mountInRegistry(
+      <>
+        <SuspendComponentVolatiles suspended>
+          <Resolve volatile={shared} />
+        </SuspendComponentVolatiles>
+        <Resolve volatile={shared} />
+      </>
+    )
+    await resolve()
+    assert.deepEqual(log, ["shared"])
+  }
+)
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict"
+import { test, TestContext } from "node:test"
+import React from "react"
+import { Mesh, MeshBasicMaterial, Texture, WebGLRenderer } from "three"
+
+import { Image } from "../src/components/image/Image"
+import { RenderTargetLayer } from "../src/components/rendering/RenderTarget"
+import {
+  PotentialVolatile,
+  ResourceHandle,
+  RootVolatile,
+  useVolatile
+} from "../src/motion/Volatile"
+import { SizeValueType } from "../src/primitives/ValueTypes"
+import { mountScene, TestRenderer } from "./Helpers"
+
+
+// Renders an offscreen layer and displays its texture in an image
+const LayerImage = (
+  { size }: { size: PotentialVolatile<SizeValueType> }
+) => {
+  const texture = useVolatile<ResourceHandle<Texture>>()
+  return (
+    <>
+      <RenderTargetLayer size={size} texture={texture}>
+        <group />
+      </RenderTargetLayer>
+      <Image size={[2, 1]} texture={texture} />
+    </>
+  )
+}
+
+// Returns the texture displayed by the image, if any
+const mapOf = (renderer: TestRenderer) => {
+  const [mesh] = renderer.scene.findAll(
+    ({ instance }) => instance instanceof Mesh
+  )
+  if (!mesh)
+    return undefined
+  return ((mesh.instance as Mesh).material as MeshBasicMaterial).map
+}
+
+// The WebGL context of the test renderer cannot create framebuffers
+const mockRenderTargets = (t: TestContext, gl: WebGLRenderer) => {
+  t.mock.method(gl, "setRenderTarget", () => undefined)
+}
+
+test("images display the texture of render target layers", async (t) => {
+  const { renderer, view, gl, frame } = await mountScene(
+    <LayerImage size={[64, 32]} />
+  )
+  mockRenderTargets(t, gl)
+  await frame()
+  await frame()
+  const map = mapOf(renderer)
+  assert.ok(map instanceof Texture)
+  const dpr = view.getPixelRatio()
+  assert.equal(map.renderTarget!.width, 64 * dpr)
+  assert.equal(map.renderTarget!.height, 32 * dpr)
+})
+
+test("resizing a render target layer replaces the texture", async (t) => {
+  const size = new RootVolatile<SizeValueType>([64, 32])
+  const { renderer, gl, frame } = await mountScene(
+    <LayerImage size={size} />
+  )
+  mockRenderTargets(t, gl)
+  await frame()
+  await frame()
+  const map = mapOf(renderer)!
+  let disposed = false
+  map.renderTarget!.addEventListener("dispose", () => disposed = true)
+  size.set([128, 64])
+  await frame()
+  await frame()
+  assert.notEqual(mapOf(renderer), map)
+  assert.equal(disposed, true)
+})
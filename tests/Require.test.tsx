@@ -0,0 +1,154 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import React, { Component, ReactNode, useEffect } from "react"
+import ReactThreeTestRenderer from "@react-three/test-renderer"
+
+import { Require, useVolatileValue } from "../src/motion/Component"
+import { RootVolatile, Volatile } from "../src/motion/Volatile"
+import { mountInRegistry } from "./Helpers"
+
+
+const { act } = ReactThreeTestRenderer
+
+// Labels of the probes which are currently mounted
+const mounted = new Set<string>()
+
+const Probe = ({ label }: { label: string }) => {
+  useEffect(() => {
+    mounted.add(label)
+    return () => void mounted.delete(label)
+  }, [label])
+  return null
+}
+
+// Records the values rendered by `useVolatileValue`
+const ValueProbe = (
+  { volatile, values }: { volatile: Volatile<number>, values: number[] }
+) => {
+  values.push(useVolatileValue(volatile))
+  return null
+}
+
+class ErrorBoundary extends Component<
+  { children: ReactNode },
+  { error?: unknown }
+> {
+  state: { error?: unknown } = {}
+
+  static getDerivedStateFromError (error: unknown) {
+    return { error }
+  }
+
+  render () {
+    if (this.state.error !== undefined)
+      return <Probe label={`error: ${(this.state.error as Error).message}`} />
+    return this.props.children
+  }
+}
+
+// Fails for negative values
+const createChecked = (source: Volatile<number>) => source.map((value) => {
+  if (value < 0)
+    throw new Error("Negative")
+  return value
+})
+
+test("Require renders the fallback until the volatile is ready", async () => {
+  mounted.clear()
+  const volatile = new RootVolatile<number>()
+  await mountInRegistry(
+    <Require volatile={volatile} fallback={<Probe label="fallback" />}>
+      <Probe label="children" />
+    </Require>
+  )
+  assert.deepEqual([...mounted], ["fallback"])
+  await act(async () => volatile.set(1))
+  assert.deepEqual([...mounted], ["children"])
+})
+
+test("Require renders the error fallback when the volatile fails", async () => {
+  mounted.clear()
+  const source = new RootVolatile(1)
+  const checked = createChecked(source)
+  const { resolve } = await mountInRegistry(
+    <Require volatile={checked}
+      fallback={<Probe label="fallback" />}
+      errorFallback={(error) => <Probe label={(error as Error).message} />}
+      >
+      <Probe label="children" />
+    </Require>
+  )
+  assert.deepEqual([...mounted], ["children"])
+  await act(async () => source.set(-1))
+  await resolve()
+  assert.deepEqual([...mounted], ["Negative"])
+  await act(async () => source.set(2))
+  assert.deepEqual([...mounted], ["children"])
+  checked.dispose()
+})
+
+test("suspending Require resolves the volatile outside of Suspense",
+  async () => {
+    mounted.clear()
+    const source = new RootVolatile<number>()
+    const doubled = source.map((value) => value * 2)
+    const values: number[] = []
+    const { resolve } = await mountInRegistry(
+      <Require volatile={doubled}
+        suspend
+        fallback={<Probe label="fallback" />}
+        >
+        <ValueProbe volatile={doubled} values={values} />
+      </Require>
+    )
+    assert.deepEqual([...mounted], ["fallback"])
+    await act(async () => source.set(1))
+    await resolve()
+    assert.deepEqual([...mounted], [])
+    assert.deepEqual(values, [2])
+    doubled.dispose()
+  }
+)
+
+test("useVolatileValue only renders again when the value changes",
+  async () => {
+    const source = new RootVolatile(1)
+    const parity = source.map((value) => value % 2, (a, b) => a === b)
+    const values: number[] = []
+    const { resolve } = await mountInRegistry(
+      <Require volatile={parity} suspend>
+        <ValueProbe volatile={parity} values={values} />
+      </Require>
+    )
+    await resolve()
+    assert.deepEqual(values, [1])
+    source.set(3)
+    await resolve()
+    assert.deepEqual(values, [1])
+    source.set(4)
+    await resolve()
+    assert.deepEqual(values, [1, 0])
+    parity.dispose()
+  }
+)
+
+test("useVolatileValue throws errors to the nearest boundary", async (t) => {
+  // The renderer reports the errors caught by boundaries
+  t.mock.method(console, "error", () => undefined)
+  mounted.clear()
+  const source = new RootVolatile(1)
+  const checked = createChecked(source)
+  const values: number[] = []
+  const { resolve } = await mountInRegistry(
+    <ErrorBoundary>
+      <Require volatile={checked} suspend>
+        <ValueProbe volatile={checked} values={values} />
+      </Require>
+    </ErrorBoundary>
+  )
+  assert.deepEqual(values, [1])
+  await act(async () => source.set(-1))
+  await resolve()
+  assert.deepEqual([...mounted], ["error: Negative"])
+  checked.dispose()
+})
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { Box2, Color, Vector2, Vector3 } from "three"
+
+import {
+  box2Codec,
+  colorCodec,
+  SnapshotRegistry,
+  vector2Codec,
+  vector3Codec
+} from "../src/motion/Snapshot"
+import { get, RootVolatile } from "../src/motion/Volatile"
+
+
+// Encodes and decodes a value through JSON, as a persisted snapshot would be
+const roundTrip = <T> (
+  codec: { encode (value: T): unknown, decode (encoded: any): T },
+  value: T
+) => codec.decode(JSON.parse(JSON.stringify(codec.encode(value))))
+
+test("three.js codecs restore values exactly", () => {
+  const vector2 = new Vector2(0.1, -2)
+  assert.ok(roundTrip(vector2Codec, vector2).equals(vector2))
+  const vector3 = new Vector3(1 / 3, 2, -3)
+  assert.ok(roundTrip(vector3Codec, vector3).equals(vector3))
+  const box = new Box2(new Vector2(-1, -2), new Vector2(3, 4))
+  assert.ok(roundTrip(box2Codec, box).equals(box))
+  const color = new Color(0.2, 0.4, 0.6)
+  assert.ok(roundTrip(colorCodec, color).equals(color))
+})
+
+test("snapshots hold the encoded values of ready volatiles", () => {
+  const registry = new SnapshotRegistry()
+  const position = new RootVolatile(new Vector3(1, 2, 3))
+  registry.register("position", position, vector3Codec)
+  registry.register("label", new RootVolatile("text"))
+  registry.register("pending", new RootVolatile<number>())
+  assert.deepEqual(
+    registry.snapshot(),
+    { position: [1, 2, 3], label: "text" }
+  )
+})
+
+test("restoring a snapshot sets the volatiles in a single batch", () => {
+  const registry = new SnapshotRegistry()
+  const position = new RootVolatile(new Vector3())
+  const label = new RootVolatile("")
+  const untouched = new RootVolatile(5)
+  registry.register("position", position, vector3Codec)
+  registry.register("label", label)
+  registry.register("untouched", untouched)
+  let invalidations = 0
+  const unsubscribe = position.subscribeInvalidation(() => {
+    invalidations++
+    assert.equal(get(label), "restored")
+  })
+  registry.restore({ position: [4, 5, 6], label: "restored", unknown: 1 })
+  assert.equal(invalidations, 1)
+  assert.deepEqual(registry.snapshot().position, [4, 5, 6])
+  assert.equal(get(untouched), 5)
+  unsubscribe()
+})
+
+test("unregistering only removes the matching registration", () => {
+  const registry = new SnapshotRegistry()
+  const first = new RootVolatile(1)
+  const second = new RootVolatile(2)
+  const unregisterFirst = registry.register("value", first)
+  registry.register("value", second)
+  unregisterFirst()
+  assert.equal(registry.get("value"), second)
+})
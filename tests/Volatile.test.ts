@@ -0,0 +1,259 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+import { Vector3 } from "three"
+
+import { equalVector3 } from "../src/primitives/Equality"
+import { get, RootVolatile, Volatile } from "../src/motion/Volatile"
+
+
+test("map recomputes lazily when its source changes", () => {
+  const source = new RootVolatile(1)
+  let computations = 0
+  const doubled = source.map((value) => (computations++, value * 2))
+  assert.equal(get(doubled), 2)
+  source.set(2)
+  source.set(3)
+  assert.equal(computations, 1)
+  assert.equal(get(doubled), 6)
+  assert.equal(computations, 2)
+  doubled.dispose()
+})
+
+test("map is ready only while its source is", () => {
+  const source = new RootVolatile<number>()
+  const doubled = source.map((value) => value * 2)
+  assert.equal(doubled.ready(), false)
+  source.set(1)
+  assert.equal(doubled.ready(), true)
+  source.unset()
+  assert.equal(doubled.ready(), false)
+  doubled.dispose()
+})
+
+test("combine waits for all its sources", () => {
+  const a = new RootVolatile<number>()
+  const b = new RootVolatile<number>()
+  const sum = Volatile.combine([a, b], (x, y) => x + y)
+  a.set(1)
+  assert.equal(sum.ready(), false)
+  b.set(2)
+  assert.equal(sum.ready(), true)
+  assert.equal(get(sum), 3)
+  sum.dispose()
+})
+
+test("filter holds the last accepted value", () => {
+  const source = new RootVolatile(1)
+  const even = source.filter((value) => value % 2 === 0)
+  assert.equal(even.ready(), false)
+  source.set(2)
+  assert.equal(even.ready(), true)
+  source.set(3)
+  assert.equal(get(even), 2)
+  source.set(4)
+  assert.equal(get(even), 4)
+  even.dispose()
+})
+
+test("filter readiness does not pull its source once accepted", () => {
+  const source = new RootVolatile(2)
+  let tests = 0
+  const even = source.filter((value) => (tests++, value % 2 === 0))
+  assert.equal(tests, 1)
+  source.set(4)
+  assert.equal(even.ready(), true)
+  assert.equal(tests, 1)
+  even.dispose()
+})
+
+test("filter notifies dependents when it accepts a first value", () => {
+  const source = new RootVolatile(1)
+  const even = source.filter((value) => value % 2 === 0)
+  const states: Array<boolean> = []
+  const unsubscribe = even.subscribeReadyStateChange(
+    ({ ready }) => states.push(ready)
+  )
+  source.set(3)
+  source.set(2)
+  assert.deepEqual(states, [true])
+  unsubscribe()
+  even.dispose()
+})
+
+test("distinct keeps its identity for equal values", () => {
+  const source = new RootVolatile({ x: 1 })
+  const distinct = source.distinct((a, b) => a.x === b.x)
+  const first = get(distinct)
+  const version = distinct.getVersion()
+  source.set({ x: 1 })
+  assert.equal(get(distinct), first)
+  assert.equal(distinct.getVersion(), version)
+  source.set({ x: 2 })
+  assert.deepEqual(get(distinct), { x: 2 })
+  distinct.dispose()
+})
+
+test("setting an equal value does not invalidate dependents", () => {
+  const source = new RootVolatile(new Vector3(1, 2, 3), equalVector3)
+  let invalidations = 0
+  const unsubscribe = source.subscribeInvalidation(() => invalidations++)
+  const version = source.getVersion()
+  source.set(new Vector3(1, 2, 3))
+  assert.equal(invalidations, 0)
+  assert.equal(source.getVersion(), version)
+  source.set(new Vector3(1, 2, 4))
+  assert.equal(invalidations, 1)
+  assert.equal(source.getVersion(), version + 1)
+  unsubscribe()
+})
+
+test("an equal derivated value skips the computation of dependents", () => {
+  const source = new RootVolatile(1)
+  const parity = source.map((value) => value % 2, (a, b) => a === b)
+  let computations = 0
+  const label = parity.map(
+    (value) => (computations++, value? "odd": "even")
+  )
+  assert.equal(get(label), "odd")
+  source.set(3)
+  assert.equal(get(label), "odd")
+  assert.equal(computations, 1)
+  source.set(4)
+  assert.equal(get(label), "even")
+  assert.equal(computations, 2)
+  label.dispose()
+  parity.dispose()
+})
+
+test("a derivated volatile without equality bumps its version", () => {
+  const source = new RootVolatile(1)
+  const parity = source.map((value) => value % 2)
+  get(parity)
+  const version = parity.getVersion()
+  source.set(3)
+  get(parity)
+  assert.equal(parity.getVersion(), version + 1)
+  parity.dispose()
+})
+
+test("batch delivers each invalidation once when it closes", () => {
+  const a = new RootVolatile(1)
+  const b = new RootVolatile(2)
+  const merged = Volatile.merge(a, b)
+  merged.ensureInitialized()
+  let invalidations = 0
+  const unsubscribe = merged.subscribeInvalidation(() => invalidations++)
+  get(merged)
+  Volatile.batch(() => {
+    a.set(10)
+    b.set(20)
+    assert.equal(invalidations, 0)
+  })
+  assert.equal(invalidations, 1)
+  unsubscribe()
+  merged.dispose()
+})
+
+test("merged volatiles never observe a half-applied batch", () => {
+  const a = new RootVolatile(1)
+  const b = new RootVolatile(1)
+  const observed: Array<readonly [number, number]> = []
+  const merged = Volatile.merge(a, b)
+  merged.ensureInitialized()
+  get(merged)
+  const unsubscribe = merged.subscribeInvalidation(
+    () => observed.push(get(merged))
+  )
+  Volatile.batch(() => {
+    a.set(2)
+    b.set(2)
+  })
+  assert.deepEqual(observed, [[2, 2]])
+  unsubscribe()
+  merged.dispose()
+})
+
+test("batch skips ready state changes that were reverted", () => {
+  const source = new RootVolatile(1)
+  const states: Array<boolean> = []
+  const unsubscribe = source.subscribeReadyStateChange(
+    ({ ready }) => states.push(ready)
+  )
+  Volatile.batch(() => {
+    source.unset()
+    source.set(2)
+  })
+  assert.deepEqual(states, [])
+  Volatile.batch(() => source.unset())
+  assert.deepEqual(states, [false])
+  unsubscribe()
+})
+
+test("nested batches flush when the outermost one closes", () => {
+  const source = new RootVolatile(1)
+  let invalidations = 0
+  const unsubscribe = source.subscribeInvalidation(() => invalidations++)
+  Volatile.batch(() => {
+    Volatile.batch(() => source.set(2))
+    assert.equal(invalidations, 0)
+    source.set(3)
+  })
+  assert.equal(invalidations, 1)
+  unsubscribe()
+})
+
+// Creates the chain source -> checked -> doubled, where `checked` fails for
+// values above 100
+const createFailingChain = () => {
+  const source = new RootVolatile(1)
+  const checked = source.map((value) => {
+    if (value > 100)
+      throw new Error("Out of range")
+    return value
+  })
+  const doubled = checked.map((value) => value * 2)
+  return { source, checked, doubled }
+}
+
+test("computation errors propagate to dependents", () => {
+  const { source, checked, doubled } = createFailingChain()
+  assert.equal(get(doubled), 2)
+  source.set(101)
+  doubled.current()
+  assert.equal(checked.ready(), false)
+  assert.equal(doubled.ready(), false)
+  assert.equal((doubled.getError() as Error).message, "Out of range")
+  doubled.dispose()
+  checked.dispose()
+})
+
+test("dependents of a failed volatile recover with it", () => {
+  const { source, checked, doubled } = createFailingChain()
+  get(doubled)
+  source.set(101)
+  doubled.current()
+  source.set(2)
+  assert.equal(checked.ready(), true)
+  assert.equal(doubled.ready(), true)
+  assert.equal(doubled.getError(), undefined)
+  assert.equal(get(doubled), 4)
+  doubled.dispose()
+  checked.dispose()
+})
+
+test("failed volatiles notify dependents when they recover", () => {
+  const { source, checked, doubled } = createFailingChain()
+  get(doubled)
+  source.set(101)
+  doubled.current()
+  const states: Array<boolean> = []
+  const unsubscribe = doubled.subscribeReadyStateChange(
+    ({ ready }) => states.push(ready)
+  )
+  source.set(102)
+  source.set(3)
+  assert.deepEqual(states, [true])
+  unsubscribe()
+  doubled.dispose()
+  checked.dispose()
+})
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+
+import { get, RootVolatile } from "../src/motion/Volatile"
+import { exportVolatileGraph } from "../src/utils/VolatileGraph"
+
+
+test("inspection describes the neighbours of a volatile", () => {
+  const source = new RootVolatile(1).setName("source")
+  const doubled = source.map((value) => value * 2).setName("doubled")
+  get(doubled)
+  const inspection = doubled.inspect()
+  assert.equal(inspection.name, "doubled")
+  assert.equal(inspection.ready, true)
+  assert.equal(inspection.recomputeCount, 1)
+  assert.deepEqual(inspection.sources, [source])
+  assert.deepEqual(source.inspect().dependents, [doubled])
+  doubled.dispose()
+  assert.deepEqual(source.inspect().dependents, [])
+})
+
+test("the JSON export walks the graph upstream", () => {
+  const source = new RootVolatile(1).setName("source")
+  const doubled = source.map((value) => value * 2).setName("doubled")
+  const { nodes } = JSON.parse(exportVolatileGraph([doubled]))
+  assert.deepEqual(
+    nodes.map(({ id, name, registered, sources }: any) => (
+      { id, name, registered, sources }
+    )),
+    [
+      { id: 0, name: "doubled", registered: true, sources: [1] },
+      { id: 1, name: "source", registered: false, sources: [] }
+    ]
+  )
+  doubled.dispose()
+})
+
+test("the DOT export links sources and flags failed volatiles", () => {
+  const source = new RootVolatile(1).setName("source")
+  const failing = source.map((): number => {
+    throw new Error("Failure \"quoted\"")
+  }).setName("failing")
+  failing.current()
+  const dot = exportVolatileGraph([failing], "dot")
+  assert.match(dot, /^digraph volatiles \{/)
+  const lines = dot.split("\n")
+  const failingNode = lines.find((line) => line.startsWith("  n0 ["))!
+  assert.ok(failingNode.includes("Error: Failure \\\"quoted\\\""))
+  assert.ok(failingNode.endsWith("shape=box, color=red];"))
+  const sourceNode = lines.find((line) => line.startsWith("  n1 ["))!
+  assert.ok(sourceNode.endsWith("shape=ellipse, color=black];"))
+  assert.ok(lines.includes("  n1 -> n0;"))
+  failing.dispose()
+})